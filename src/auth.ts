@@ -0,0 +1,83 @@
+import { readFileSync } from 'fs';
+import { IncomingHttpHeaders } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { z } from "zod";
+
+const ApiKeySchema = z.object({
+  name: z.string().min(1, 'name is required'),
+  key: z.string().min(16, 'keys must be at least 16 characters'),
+  requestsPerMinute: z.number().int().positive().optional(),
+  dailyTokens: z.number().int().positive().optional(),
+  // Admin keys can inspect and purge the response cache, which all clients share
+  admin: z.boolean().optional(),
+});
+
+const AuthFileSchema = z.object({
+  keys: z.array(ApiKeySchema).min(1, 'At least one key is required'),
+});
+
+/**
+ * Configuration for a client API key and its quotas
+ */
+export type ApiKeyConfig = z.infer<typeof ApiKeySchema>;
+
+/**
+ * Loads client API keys from a JSON file
+ * @param path - Path to the keys file
+ * @returns The validated keys
+ */
+export function loadApiKeys(path: string): ApiKeyConfig[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read keys file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = AuthFileSchema.safeParse(raw);
+  if (!result.success) {
+    const message = result.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join(", ");
+    throw new Error(`Invalid keys file ${path}: ${message}`);
+  }
+
+  const names = new Set<string>();
+  const keys = new Set<string>();
+  for (const entry of result.data.keys) {
+    if (names.has(entry.name)) {
+      throw new Error(`Invalid keys file ${path}: duplicate key name "${entry.name}"`);
+    }
+    if (keys.has(entry.key)) {
+      throw new Error(`Invalid keys file ${path}: key "${entry.name}" reuses another key`);
+    }
+    names.add(entry.name);
+    keys.add(entry.key);
+  }
+  return result.data.keys;
+}
+
+/**
+ * Compares two secrets in constant time
+ */
+function secretsEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Finds the key presented by a request, either as `Authorization: Bearer <key>`
+ * or in an `X-API-Key` header
+ * @param headers - The request headers
+ * @param keys - The configured keys
+ * @returns The matching key, or undefined if none matched
+ */
+export function authenticateRequest(headers: IncomingHttpHeaders, keys: ApiKeyConfig[]): ApiKeyConfig | undefined {
+  const authorization = headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = headers['x-api-key'];
+  const presented = authorization || (typeof apiKey === 'string' ? apiKey : undefined);
+  if (!presented) {
+    return undefined;
+  }
+  return keys.find((entry) => secretsEqual(entry.key, presented.trim()));
+}
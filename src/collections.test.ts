@@ -0,0 +1,51 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadCollectionsConfig } from './collections.js';
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-collections-'));
+  file = join(dir, 'collections.json');
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeCollections(collections: unknown): void {
+  writeFileSync(file, JSON.stringify({ collections }));
+}
+
+describe('loadCollectionsConfig', () => {
+  it('resolves relative directories against the file location', () => {
+    writeCollections([
+      { name: 'billing', docsDir: 'billing/docs', promptsDir: '/srv/prompts', model: 'claude-test' },
+    ]);
+    expect(loadCollectionsConfig(file)).toEqual([
+      { name: 'billing', docsDir: join(dir, 'billing', 'docs'), promptsDir: '/srv/prompts', model: 'claude-test' },
+    ]);
+  });
+
+  it('rejects invalid and duplicate collection names', () => {
+    writeCollections([{ name: 'billing api', docsDir: 'docs', promptsDir: 'prompts' }]);
+    expect(() => loadCollectionsConfig(file)).toThrow('collections.0.name: Collection names may only contain');
+
+    writeCollections([
+      { name: 'billing', docsDir: 'docs', promptsDir: 'prompts' },
+      { name: 'billing', docsDir: 'other', promptsDir: 'prompts' },
+    ]);
+    expect(() => loadCollectionsConfig(file)).toThrow('duplicate collection name "billing"');
+  });
+
+  it('requires at least one collection and readable JSON', () => {
+    writeCollections([]);
+    expect(() => loadCollectionsConfig(file)).toThrow('At least one collection is required');
+
+    writeFileSync(file, '{ not json');
+    expect(() => loadCollectionsConfig(file)).toThrow(`Failed to read collections file ${file}`);
+  });
+});
@@ -0,0 +1,64 @@
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { z } from "zod";
+
+const CollectionSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Collection names may only contain letters, digits, "_" and "-"'),
+  description: z.string().optional(),
+  docsDir: z.string().min(1, 'docsDir is required'),
+  promptsDir: z.string().min(1, 'promptsDir is required'),
+  // Override the docsInclude and docsExclude patterns of the config file
+  docsInclude: z.array(z.string().min(1)).optional(),
+  docsExclude: z.array(z.string().min(1)).optional(),
+  model: z.string().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  contextBudget: z.number().int().positive().optional(),
+  // Overrides executeBaseUrl of the config file
+  executeBaseUrl: z.string().url().optional(),
+});
+
+const CollectionsFileSchema = z.object({
+  collections: z.array(CollectionSchema).min(1, 'At least one collection is required'),
+});
+
+/**
+ * Configuration for a named documentation collection
+ */
+export type CollectionConfig = z.infer<typeof CollectionSchema>;
+
+/**
+ * Loads collection definitions from a JSON file. Relative directories are
+ * resolved against the file's location.
+ * @param path - Path to the collections file
+ * @returns The validated collections
+ */
+export function loadCollectionsConfig(path: string): CollectionConfig[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read collections file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = CollectionsFileSchema.safeParse(raw);
+  if (!result.success) {
+    const message = result.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join(", ");
+    throw new Error(`Invalid collections file ${path}: ${message}`);
+  }
+
+  const seen = new Set<string>();
+  const baseDir = dirname(resolve(path));
+  return result.data.collections.map((collection) => {
+    if (seen.has(collection.name)) {
+      throw new Error(`Invalid collections file ${path}: duplicate collection name "${collection.name}"`);
+    }
+    seen.add(collection.name);
+    return {
+      ...collection,
+      docsDir: resolve(baseDir, collection.docsDir),
+      promptsDir: resolve(baseDir, collection.promptsDir),
+    };
+  });
+}
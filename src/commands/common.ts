@@ -0,0 +1,146 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ExpertConfig } from '../config.js';
+import { CollectionConfig } from '../collections.js';
+import { hashContent } from '../services/responseCache.js';
+import { DocLoaderOptions } from '../services/docLoader.js';
+
+// Records which documentation the service description was generated from
+const DESCRIPTION_HASH_FILE = '.service-description.hash';
+
+/**
+ * Everything a command needs to run
+ */
+export interface CommandContext {
+  config: ExpertConfig;
+  collections: CollectionConfig[];
+  // Command-specific flags that were given
+  flags: Set<string>;
+  // Command-specific options that were given, with their values
+  options: Map<string, string>;
+  report: Report;
+}
+
+/**
+ * A subcommand of the expert-server CLI
+ */
+export interface Command {
+  description: string;
+  // Command-specific flags without a value, with their descriptions
+  flags?: Record<string, string>;
+  // Command-specific options that take a value, with their descriptions
+  options?: Record<string, string>;
+  run: (context: CommandContext) => Promise<void>;
+}
+
+/**
+ * Collects and prints the results of a command's checks
+ */
+export class Report {
+  private errors = 0;
+  private warnings = 0;
+
+  /**
+   * Starts a group of results
+   * @param title - The group heading
+   */
+  section(title: string): void {
+    console.log(`\n${title}`);
+  }
+
+  /**
+   * Records a passed check
+   * @param message - What was checked
+   */
+  ok(message: string): void {
+    console.log(`  ok     ${message}`);
+  }
+
+  /**
+   * Records a problem that does not stop the server from working
+   * @param message - The problem and how to fix it
+   */
+  warn(message: string): void {
+    this.warnings++;
+    console.log(`  warn   ${message}`);
+  }
+
+  /**
+   * Records a problem that must be fixed; the command exits with status 1
+   * @param message - The problem and how to fix it
+   */
+  error(message: string): void {
+    this.errors++;
+    console.log(`  error  ${message}`);
+  }
+
+  /**
+   * Checks whether any errors were recorded
+   * @returns True if the command failed
+   */
+  hasErrors(): boolean {
+    return this.errors > 0;
+  }
+
+  /**
+   * Prints the number of warnings and errors
+   */
+  summarize(): void {
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+    console.log(`\n${plural(this.errors, 'error')}, ${plural(this.warnings, 'warning')}`);
+  }
+}
+
+/**
+ * Gets the options the server loads a collection's documentation with
+ * @param config - The resolved configuration
+ * @param collection - The collection
+ * @returns The include and exclude patterns and size limit
+ */
+export function getDocLoaderOptions(config: ExpertConfig, collection: CollectionConfig): DocLoaderOptions {
+  return {
+    include: collection.docsInclude || config.docsInclude,
+    exclude: collection.docsExclude || config.docsExclude,
+    maxFileBytes: config.maxDocSize === undefined ? undefined : config.maxDocSize * 1024,
+  };
+}
+
+/**
+ * Checks whether a metadata file still holds only the comments it was created with
+ * @param content - The file content
+ * @returns True if every non-blank line is a comment
+ */
+export function isTemplateOnly(content: string): boolean {
+  return content.split('\n').every(line => line.trim() === '' || line.trim().startsWith('#'));
+}
+
+/**
+ * Hashes the inputs of the service description: the documentation and the tool metadata
+ * @param docsHash - Hash of the loaded documentation
+ * @param promptsDir - The prompts directory
+ * @returns Hex SHA-256 digest
+ */
+export function hashDescriptionSources(docsHash: string, promptsDir: string): string {
+  const metadataPath = join(promptsDir, 'tool-metadata.txt');
+  const toolMetadata = existsSync(metadataPath) ? readFileSync(metadataPath, 'utf-8') : '';
+  return hashContent(JSON.stringify([docsHash, toolMetadata]));
+}
+
+/**
+ * Reads the hash recorded when the service description was last generated
+ * @param promptsDir - The prompts directory
+ * @returns The hash, or undefined if none was recorded
+ */
+export function readDescriptionHash(promptsDir: string): string | undefined {
+  const path = join(promptsDir, DESCRIPTION_HASH_FILE);
+  return existsSync(path) ? readFileSync(path, 'utf-8').trim() || undefined : undefined;
+}
+
+/**
+ * Records the hash the service description was generated from
+ * @param promptsDir - The prompts directory
+ * @param hash - The hash of the description's sources
+ */
+export function writeDescriptionHash(promptsDir: string, hash: string): void {
+  writeFileSync(join(promptsDir, DESCRIPTION_HASH_FILE), `${hash}\n`, 'utf-8');
+}
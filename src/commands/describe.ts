@@ -0,0 +1,68 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { toServerConfig } from '../config.js';
+import { ExpertService } from '../services/expertService.js';
+import { Command, hashDescriptionSources, readDescriptionHash, writeDescriptionHash } from './common.js';
+
+/**
+ * Regenerates each collection's service description, skipping collections
+ * whose documentation and tool metadata are unchanged since the last run
+ */
+export const describeCommand: Command = {
+  description: 'Regenerate service-description.txt when the documentation changed',
+  flags: {
+    '--force': 'Regenerate even if the documentation is unchanged',
+  },
+  async run({ config, collections, flags, report }) {
+    const serverConfig = toServerConfig(config);
+    for (const collection of collections) {
+      report.section(`Collection ${collection.name}`);
+      const descriptionPath = join(collection.promptsDir, 'service-description.txt');
+      if (!existsSync(collection.promptsDir)) {
+        report.error(`Prompts directory not found: ${collection.promptsDir}. Run 'expert-server init' first`);
+        continue;
+      }
+
+      let expertService: ExpertService;
+      try {
+        expertService = new ExpertService({
+          provider: serverConfig.provider,
+          model: collection.model || serverConfig.model,
+          maxTokens: collection.maxTokens || serverConfig.maxTokens,
+          temperature: serverConfig.temperature,
+          docsDir: collection.docsDir,
+          promptsDir: collection.promptsDir,
+          docsInclude: collection.docsInclude || serverConfig.docsInclude,
+          docsExclude: collection.docsExclude || serverConfig.docsExclude,
+          maxDocBytes: serverConfig.maxDocBytes,
+          contextBudget: collection.contextBudget || serverConfig.contextBudget,
+          requestTimeoutMs: serverConfig.requestTimeoutMs,
+          maxRetries: serverConfig.maxRetries,
+        });
+      } catch (error) {
+        report.error(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+      if (expertService.getDocumentationFiles().size === 0) {
+        report.error(`No documentation files found in ${collection.docsDir}`);
+        continue;
+      }
+
+      const hash = hashDescriptionSources(expertService.getContentHashes().docs, collection.promptsDir);
+      const current = existsSync(descriptionPath) ? readFileSync(descriptionPath, 'utf-8').trim() : '';
+      if (current && readDescriptionHash(collection.promptsDir) === hash && !flags.has('--force')) {
+        report.ok(`Documentation unchanged; kept ${descriptionPath}`);
+        continue;
+      }
+
+      const description = await expertService.analyzeDocumentation(true);
+      if (!description) {
+        report.error(`Failed to generate the service description. Run 'expert-server doctor' to check the provider`);
+        continue;
+      }
+      writeFileSync(descriptionPath, description, 'utf-8');
+      writeDescriptionHash(collection.promptsDir, hash);
+      report.ok(`Wrote ${descriptionPath}: ${description}`);
+    }
+  },
+};
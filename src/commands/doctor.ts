@@ -0,0 +1,137 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { ExpertConfig } from '../config.js';
+import { DEFAULT_COLLECTION, REQUIRED_PROMPT_FILES } from '../server.js';
+import { CollectionConfig } from '../collections.js';
+import { DEFAULT_MODEL } from '../services/expertService.js';
+import { listDocumentationFiles } from '../services/docLoader.js';
+import { ExpertError } from '../services/errors.js';
+import { createProvider } from '../services/providers/index.js';
+import { Command, Report, getDocLoaderOptions } from './common.js';
+
+/**
+ * Checks that the credentials the provider needs are configured
+ * @returns True if the provider can be created
+ */
+function checkCredentials(config: ExpertConfig, report: Report): boolean {
+  const type = config.provider || process.env.EXPERT_PROVIDER || 'anthropic';
+  switch (type) {
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        report.error('ANTHROPIC_API_KEY is not set. Add it to the environment or a .env file');
+        return false;
+      }
+      if (!process.env.ANTHROPIC_API_KEY.startsWith('sk-ant-')) {
+        report.warn('ANTHROPIC_API_KEY does not look like an Anthropic API key (expected an sk-ant- prefix)');
+      } else {
+        report.ok('ANTHROPIC_API_KEY is set');
+      }
+      return true;
+    case 'openai':
+      if (!config.baseUrl && !process.env.OPENAI_BASE_URL) {
+        report.error('No base URL for the openai provider. Set --base-url or OPENAI_BASE_URL');
+        return false;
+      }
+      report.ok(`Base URL: ${config.baseUrl || process.env.OPENAI_BASE_URL}${process.env.OPENAI_API_KEY ? ', with OPENAI_API_KEY' : ''}`);
+      return true;
+    case 'mock':
+      report.ok('The mock provider needs no credentials');
+      return true;
+    default:
+      report.error(`Unknown provider "${type}" in EXPERT_PROVIDER. Expected one of anthropic, openai, mock`);
+      return false;
+  }
+}
+
+/**
+ * Sends a one-token request for each configured model
+ */
+async function checkConnectivity(config: ExpertConfig, collections: CollectionConfig[], report: Report): Promise<void> {
+  const provider = createProvider({ type: config.provider, baseUrl: config.baseUrl });
+  const models = new Set(collections.map(collection => collection.model || config.model || DEFAULT_MODEL));
+  for (const model of models) {
+    const signal = AbortSignal.timeout(config.timeout * 1000);
+    const started = Date.now();
+    try {
+      await provider.createMessage({
+        model,
+        max_tokens: 1,
+        messages: [{ role: 'user', content: 'ping' }],
+      }, { signal });
+      report.ok(`${provider.name} answered for ${model} in ${Date.now() - started}ms`);
+    } catch (error) {
+      if (signal.aborted) {
+        report.error(`${provider.name} did not answer for ${model} within ${config.timeout}s`);
+      } else if (error instanceof ExpertError) {
+        report.error(`${provider.name} request for ${model} failed (${error.code}): ${error.message}`);
+      } else {
+        report.error(`${provider.name} request for ${model} failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+}
+
+/**
+ * Checks that a collection's directories and prompt files are where the server looks for them
+ */
+function checkDirectories(config: ExpertConfig, collection: CollectionConfig, report: Report): void {
+  if (!existsSync(collection.docsDir)) {
+    report.error(`Docs directory not found: ${collection.docsDir}`);
+  } else {
+    const count = listDocumentationFiles(collection.docsDir, getDocLoaderOptions(config, collection)).length;
+    if (count === 0) {
+      report.error(`No documentation files in ${collection.docsDir}`);
+    } else {
+      report.ok(`Docs directory ${collection.docsDir} (${count} file${count === 1 ? '' : 's'})`);
+    }
+  }
+
+  if (!existsSync(collection.promptsDir)) {
+    report.error(`Prompts directory not found: ${collection.promptsDir}`);
+  } else {
+    const missing = REQUIRED_PROMPT_FILES.filter(file => !existsSync(resolve(collection.promptsDir, file)));
+    if (missing.length > 0) {
+      report.error(`Missing from ${collection.promptsDir}: ${missing.join(', ')}. Run 'expert-server init'`);
+    } else {
+      report.ok(`Prompts directory ${collection.promptsDir}`);
+    }
+  }
+
+  // Older versions of setup created these in the working directory, where the server does not look
+  if (collection.name === DEFAULT_COLLECTION) {
+    for (const [name, configured, flag] of [
+      ['docs', collection.docsDir, '--docs-dir'],
+      ['prompts', collection.promptsDir, '--prompts-dir'],
+    ]) {
+      const local = resolve(name);
+      if (existsSync(local) && local !== resolve(configured)) {
+        report.warn(`Found ${local}, but the server reads ${configured}. Pass ${flag} or set it in the config file to use it`);
+      }
+    }
+  }
+}
+
+/**
+ * Checks the provider credentials, connectivity and directory layout
+ */
+export const doctorCommand: Command = {
+  description: 'Check the API key, provider connectivity and directories',
+  flags: {
+    '--offline': 'Skip the request to the model provider',
+  },
+  async run({ config, collections, flags, report }) {
+    report.section('Provider');
+    if (config.sampling) {
+      report.ok('Completions are sent through the MCP client; the fallback provider is checked below');
+    }
+    if (checkCredentials(config, report) && !flags.has('--offline')) {
+      await checkConnectivity(config, collections, report);
+    }
+
+    for (const collection of collections) {
+      report.section(`Collection ${collection.name}`);
+      checkDirectories(config, collection, report);
+    }
+    console.log(`\nRun 'expert-server validate' to check the content of these files.`);
+  },
+};
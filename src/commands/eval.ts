@@ -0,0 +1,231 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { toServerConfig } from '../config.js';
+import { CollectionConfig } from '../collections.js';
+import { DEFAULT_MODEL, ExpertService } from '../services/expertService.js';
+import {
+  EvalCase,
+  EvalResult,
+  EvalRun,
+  diffRuns,
+  loadEvalDataset,
+  scoreOutput,
+  summarizeResults,
+} from '../services/evaluation.js';
+import { LLMProvider, RecordingProvider, ReplayProvider, createProvider } from '../services/providers/index.js';
+import { Command, Report } from './common.js';
+
+/**
+ * Gets the default results path: the dataset path with a .results.json extension
+ */
+function defaultOutputPath(datasetPath: string): string {
+  return datasetPath.replace(/\.(json|ya?ml)$/i, '') + '.results.json';
+}
+
+/**
+ * Builds the result of a case that produced no output
+ */
+function failedResult(evalCase: EvalCase, error: string, durationMs: number): EvalResult {
+  const keywords = evalCase.keywords || [];
+  const hasExpected = evalCase.expected !== undefined;
+  return {
+    id: evalCase.id,
+    tool: evalCase.tool,
+    error,
+    durationMs,
+    exactMatch: hasExpected ? false : undefined,
+    structuralMatch: hasExpected ? false : undefined,
+    keywordsFound: 0,
+    keywordsTotal: keywords.length,
+    missingKeywords: keywords,
+    passed: false,
+  };
+}
+
+/**
+ * Runs one case and scores its output
+ */
+async function runCase(evalCase: EvalCase, getService: () => ExpertService): Promise<EvalResult> {
+  const started = Date.now();
+  try {
+    const expertService = getService();
+    const output = evalCase.tool === 'documentation'
+      ? await expertService.getDocumentationResponse(evalCase.request)
+      : await expertService.generateQuery(evalCase.request);
+    return { id: evalCase.id, tool: evalCase.tool, output, durationMs: Date.now() - started, ...scoreOutput(evalCase, output) };
+  } catch (error) {
+    return failedResult(evalCase, error instanceof Error ? error.message : String(error), Date.now() - started);
+  }
+}
+
+/**
+ * Prints one line per case
+ */
+function reportResult(result: EvalResult, report: Report): void {
+  const keywords = result.keywordsTotal > 0 ? `, ${result.keywordsFound}/${result.keywordsTotal} keywords` : '';
+  if (result.passed) {
+    const match = result.exactMatch ? 'exact match' : result.structuralMatch ? `${result.kind} structural match` : 'answered';
+    report.ok(`${result.id}: ${match}${keywords} (${result.durationMs}ms)`);
+    return;
+  }
+
+  const problems: string[] = [];
+  if (result.error !== undefined) {
+    problems.push(result.error);
+  } else {
+    if (result.structuralMatch === false) {
+      const firstLine = (result.output || '').trim().split('\n')[0];
+      problems.push(`does not match the expected ${result.kind} query; got "${firstLine.length > 80 ? `${firstLine.slice(0, 80)}...` : firstLine}"`);
+    }
+    if (result.missingKeywords.length > 0) {
+      problems.push(`missing keywords: ${result.missingKeywords.join(', ')}`);
+    }
+  }
+  report.error(`${result.id}: ${problems.join('; ')}`);
+}
+
+/**
+ * Prints what changed since the previous run of the dataset
+ */
+function reportChanges(previous: EvalRun, current: EvalRun, report: Report): void {
+  const diff = diffRuns(previous, current);
+  report.section(`Changes since the run of ${previous.startedAt}`);
+  if (diff.promptsChanged || diff.docsChanged) {
+    console.log(`  note   ${[diff.promptsChanged && 'prompts', diff.docsChanged && 'documentation'].filter(Boolean).join(' and ')} changed`);
+  }
+  console.log(`  passed ${previous.summary.passed}/${previous.summary.cases} -> ${current.summary.passed}/${current.summary.cases}`);
+  if (diff.newlyPassing.length > 0) {
+    report.ok(`Now passing: ${diff.newlyPassing.join(', ')}`);
+  }
+  if (diff.newlyFailing.length > 0) {
+    report.warn(`Now failing: ${diff.newlyFailing.join(', ')}`);
+  }
+  if (diff.changedOutput.length > 0) {
+    console.log(`  output changed: ${diff.changedOutput.join(', ')}`);
+  }
+  if (diff.added.length > 0) {
+    console.log(`  new cases: ${diff.added.join(', ')}`);
+  }
+  if (diff.removed.length > 0) {
+    console.log(`  removed cases: ${diff.removed.join(', ')}`);
+  }
+}
+
+/**
+ * Runs a golden dataset of requests through the query and documentation
+ * tools, scores the outputs against the expected ones and compares the
+ * scores with the previous run
+ */
+export const evalCommand: Command = {
+  description: 'Score generated queries and answers against a golden dataset',
+  options: {
+    '--dataset': 'JSON or YAML file of cases (required)',
+    '--output': 'Results file, also read as the previous run (default: <dataset>.results.json)',
+    '--record': 'Save model responses to this file',
+    '--replay': 'Answer from responses saved with --record instead of the model',
+  },
+  async run({ config, collections, options, report }) {
+    const datasetPath = options.get('--dataset');
+    if (!datasetPath) {
+      report.error('Missing --dataset <file>');
+      return;
+    }
+    if (options.has('--record') && options.has('--replay')) {
+      report.error('--record and --replay cannot be used together');
+      return;
+    }
+    const cases = loadEvalDataset(datasetPath);
+    const outputPath = options.get('--output') || defaultOutputPath(datasetPath);
+    const serverConfig = toServerConfig(config);
+
+    let provider: LLMProvider;
+    let recorder: RecordingProvider | undefined;
+    try {
+      const replayPath = options.get('--replay');
+      provider = replayPath
+        ? ReplayProvider.fromFile(replayPath)
+        : createProvider({ type: config.provider, baseUrl: config.baseUrl });
+      const recordPath = options.get('--record');
+      if (recordPath) {
+        provider = recorder = new RecordingProvider(provider, recordPath);
+      }
+    } catch (error) {
+      report.error(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    // Services are created on first use, so collections without cases are not loaded
+    const services = new Map<string, ExpertService>();
+    const getService = (collection: CollectionConfig) => {
+      let expertService = services.get(collection.name);
+      if (!expertService) {
+        expertService = new ExpertService({
+          llmProvider: provider,
+          model: collection.model || serverConfig.model,
+          maxTokens: collection.maxTokens || serverConfig.maxTokens,
+          temperature: serverConfig.temperature,
+          docsDir: collection.docsDir,
+          promptsDir: collection.promptsDir,
+          docsInclude: collection.docsInclude || serverConfig.docsInclude,
+          docsExclude: collection.docsExclude || serverConfig.docsExclude,
+          maxDocBytes: serverConfig.maxDocBytes,
+          contextBudget: collection.contextBudget || serverConfig.contextBudget,
+          maxRepairAttempts: serverConfig.maxRepairAttempts,
+          requestTimeoutMs: serverConfig.requestTimeoutMs,
+          maxRetries: serverConfig.maxRetries,
+        });
+        services.set(collection.name, expertService);
+      }
+      return expertService;
+    };
+
+    report.section(`Cases from ${datasetPath} (${provider.name} provider)`);
+    const startedAt = new Date().toISOString();
+    const results: EvalResult[] = [];
+    const models = new Set<string>();
+    for (const evalCase of cases) {
+      const collection = evalCase.collection
+        ? collections.find(candidate => candidate.name === evalCase.collection)
+        : collections[0];
+      let result: EvalResult;
+      if (!collection) {
+        result = failedResult(evalCase, `Unknown collection "${evalCase.collection}"`, 0);
+      } else {
+        models.add(collection.model || serverConfig.model || DEFAULT_MODEL);
+        result = await runCase(evalCase, () => getService(collection));
+      }
+      results.push(result);
+      reportResult(result, report);
+    }
+    recorder?.save();
+
+    const summary = summarizeResults(results);
+    const run: EvalRun = {
+      dataset: datasetPath,
+      startedAt,
+      provider: provider.name,
+      model: [...models].join(', '),
+      contentHashes: Object.fromEntries([...services].map(([name, expertService]) => [name, expertService.getContentHashes()])),
+      summary,
+      results,
+    };
+
+    report.section('Summary');
+    const percent = (count: number, total: number) => total > 0 ? ` (${Math.round(count / total * 100)}%)` : '';
+    console.log(`  passed     ${summary.passed}/${summary.cases}${percent(summary.passed, summary.cases)}`);
+    console.log(`  exact      ${summary.exactMatches}/${summary.expectedCases}${percent(summary.exactMatches, summary.expectedCases)}`);
+    console.log(`  structural ${summary.structuralMatches}/${summary.expectedCases}${percent(summary.structuralMatches, summary.expectedCases)}`);
+    if (summary.keywordsTotal > 0) {
+      console.log(`  keywords   ${summary.keywordsFound}/${summary.keywordsTotal}${percent(summary.keywordsFound, summary.keywordsTotal)}`);
+    }
+
+    if (existsSync(outputPath)) {
+      try {
+        reportChanges(JSON.parse(readFileSync(outputPath, 'utf-8')), run, report);
+      } catch (error) {
+        report.warn(`Could not compare with the previous run in ${outputPath}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    writeFileSync(outputPath, JSON.stringify(run, null, 2), 'utf-8');
+    console.log(`\nResults written to ${outputPath}`);
+  },
+};
@@ -0,0 +1,61 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runCommand } from './index.js';
+
+let dir: string;
+let output: string[];
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-commands-'));
+  output = [];
+  vi.spyOn(console, 'log').mockImplementation((line: string) => { output.push(line); });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('runCommand', () => {
+  it('creates the default prompt files with init and keeps existing ones', async () => {
+    expect(await runCommand('init', [], dir)).toBe(0);
+    for (const file of ['system-prompt.txt', 'tool-metadata.txt', 'query-metadata.txt', 'service-description.txt']) {
+      expect(existsSync(join(dir, 'prompts', file))).toBe(true);
+    }
+    expect(existsSync(join(dir, 'prompts', 'templates', 'paginated-query.md'))).toBe(true);
+
+    writeFileSync(join(dir, 'prompts', 'system-prompt.txt'), 'Custom prompt');
+    expect(await runCommand('init', [], dir)).toBe(0);
+    expect(readFileSync(join(dir, 'prompts', 'system-prompt.txt'), 'utf-8')).toBe('Custom prompt');
+    expect(output).toContain(`  ok     Kept existing file: ${join(dir, 'prompts', 'system-prompt.txt')}`);
+  });
+
+  it('fails validate without documentation and warns about unfilled metadata', async () => {
+    await runCommand('init', [], dir);
+    output = [];
+    expect(await runCommand('validate', [], dir)).toBe(1);
+    expect(output).toContain(`  error  No documentation files found in ${join(dir, 'docs')}`);
+
+    writeFileSync(join(dir, 'docs', 'api.md'), '# Users\n\nList users with GET /users.');
+    output = [];
+    expect(await runCommand('validate', [], dir)).toBe(0);
+    expect(output).toContain(`  ok     ${join(dir, 'docs', 'api.md')}`);
+    expect(output).toContain(`  warn   ${join(dir, 'prompts', 'tool-metadata.txt')} still contains only the template comments`);
+    expect(output[output.length - 1]).toBe('\n0 errors, 3 warnings');
+  });
+
+  it('reports invalid options without running the command', async () => {
+    vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    expect(await runCommand('init', ['--max-tokens', 'many'], dir)).toBe(1);
+    expect(existsSync(join(dir, 'prompts'))).toBe(false);
+  });
+
+  it('treats names inherited from Object.prototype as unknown options', async () => {
+    const errors: string[] = [];
+    vi.spyOn(console, 'error').mockImplementation((line: string) => { errors.push(line); });
+    expect(await runCommand('eval', ['constructor'], dir)).toBe(1);
+    expect(errors.join('\n')).toContain('Unknown option: constructor');
+  });
+});
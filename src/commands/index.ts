@@ -0,0 +1,86 @@
+import { ConfigError, getUsage, loadConfig, toLoggerConfig } from '../config.js';
+import { CollectionConfig, loadCollectionsConfig } from '../collections.js';
+import { DEFAULT_COLLECTION } from '../server.js';
+import { configureLogger, errorLog } from '../logger.js';
+import { Command, Report } from './common.js';
+import { initCommand } from './init.js';
+import { describeCommand } from './describe.js';
+import { validateCommand } from './validate.js';
+import { doctorCommand } from './doctor.js';
+import { evalCommand } from './eval.js';
+
+/**
+ * Subcommands of the expert-server CLI, keyed by name
+ */
+export const COMMANDS: Record<string, Command> = {
+  init: initCommand,
+  describe: describeCommand,
+  validate: validateCommand,
+  doctor: doctorCommand,
+  eval: evalCommand,
+};
+
+/**
+ * Gets the usage line of each command, including its own flags
+ * @returns Descriptions keyed by usage
+ */
+export function getCommandDescriptions(): Record<string, string> {
+  const descriptions: Record<string, string> = {};
+  for (const [name, command] of Object.entries(COMMANDS)) {
+    const flags = Object.keys(command.flags || {}).map(flag => ` [${flag}]`).join('')
+      + Object.keys(command.options || {}).map(option => ` [${option} <value>]`).join('');
+    const flagHelp = Object.entries({ ...command.flags, ...command.options })
+      .map(([flag, help]) => `; ${flag}: ${help.toLowerCase()}`).join('');
+    descriptions[`${name}${flags}`] = `${command.description}${flagHelp}`;
+  }
+  return descriptions;
+}
+
+/**
+ * Runs a subcommand with the same configuration the server would use
+ * @param name - The command name
+ * @param argv - Arguments after the command name
+ * @param packageDir - Directory holding the default docs and prompts directories
+ * @returns The process exit code
+ */
+export async function runCommand(name: string, argv: string[], packageDir: string): Promise<number> {
+  const command = COMMANDS[name];
+  const flags = new Set<string>();
+  const options = new Map<string, string>();
+  const configArgs: string[] = [];
+
+  try {
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+      if (command.flags && Object.hasOwn(command.flags, arg)) {
+        flags.add(arg);
+      } else if (command.options && Object.hasOwn(command.options, arg)) {
+        if (i + 1 >= argv.length) {
+          throw new ConfigError(`Missing value for ${arg}`);
+        }
+        options.set(arg, argv[++i]);
+      } else {
+        configArgs.push(arg);
+      }
+    }
+
+    // Commands print their own results, so only warnings are logged unless asked
+    const config = loadConfig(configArgs, process.env, packageDir, { logLevel: 'warn' });
+    if (!config) {
+      console.log(getUsage(getCommandDescriptions()));
+      return 0;
+    }
+    configureLogger(toLoggerConfig(config));
+
+    const collections: CollectionConfig[] = config.collections
+      ? loadCollectionsConfig(config.collections)
+      : [{ name: DEFAULT_COLLECTION, docsDir: config.docsDir, promptsDir: config.promptsDir }];
+    const report = new Report();
+    await command.run({ config, collections, flags, options, report });
+    report.summarize();
+    return report.hasErrors() ? 1 : 0;
+  } catch (error) {
+    errorLog(error instanceof ConfigError ? error.message : `${name} failed: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+}
@@ -0,0 +1,79 @@
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Command } from './common.js';
+
+const SYSTEM_PROMPT = 'You are an API expert and expert at analyzing documentation and generating accurate queries and responses based on the provided documentation and context. When asked to generate a query, return ONLY the query with no additional explanation. When asked about documentation, provide clear, concise responses that take into account both the documentation and any additional context provided. Always ensure your responses align with the intended use cases and audience specified in the context.';
+
+const TOOL_METADATA = `# Additional context about the API/Service for tool descriptions
+# Add information that helps describe what this service is and how it should be used
+# For example:
+# - The intended audience (e.g., "This API is designed for enterprise developers")
+# - Primary use cases (e.g., "Commonly used in IoT deployments")
+# - Service category (e.g., "Part of our data processing suite")
+# - Integration points (e.g., "Core component of our ML pipeline")
+
+# Remove these example comments and add your tool description metadata here`;
+
+const QUERY_METADATA = `# Additional context for query generation and documentation responses
+# Add information that helps generate better queries and documentation responses
+# For example:
+# - Authentication requirements (e.g., "All queries require Bearer token")
+# - Common query patterns (e.g., "Queries should include pagination parameters")
+# - Rate limiting details (e.g., "Max 100 requests per minute")
+# - Required headers (e.g., "Content-Type must be application/json")
+# - Response formats (e.g., "All responses are in JSON format")
+# - Error handling (e.g., "Include error handling for 429 rate limit responses")
+
+# Remove these example comments and add your query metadata here`;
+
+const PAGINATED_QUERY_TEMPLATE = `---
+name: paginated-query
+description: Write a paginated query for a resource
+argument: resource (required) - The resource to list
+argument: pageSize - Number of items per page
+---
+Generate a query that lists {{resource}}, {{pageSize}} items per page, and explain how to request the next page.`;
+
+/**
+ * Creates the docs and prompts directories and default prompt files
+ * without contacting the model. Existing files are left unchanged.
+ */
+export const initCommand: Command = {
+  description: 'Create the docs and prompts directories and default prompt files',
+  async run({ collections, report }) {
+    for (const collection of collections) {
+      report.section(`Collection ${collection.name}`);
+      for (const dir of [collection.docsDir, collection.promptsDir, join(collection.promptsDir, 'templates')]) {
+        if (existsSync(dir)) {
+          report.ok(`Directory exists: ${dir}`);
+        } else {
+          mkdirSync(dir, { recursive: true });
+          report.ok(`Created directory: ${dir}`);
+        }
+      }
+
+      const files = [
+        { path: join(collection.promptsDir, 'system-prompt.txt'), content: SYSTEM_PROMPT },
+        { path: join(collection.promptsDir, 'tool-metadata.txt'), content: TOOL_METADATA },
+        { path: join(collection.promptsDir, 'query-metadata.txt'), content: QUERY_METADATA },
+        // Left empty until 'describe' generates it; the server also generates it on first use
+        { path: join(collection.promptsDir, 'service-description.txt'), content: '' },
+        { path: join(collection.promptsDir, 'templates', 'paginated-query.md'), content: PAGINATED_QUERY_TEMPLATE },
+      ];
+      for (const file of files) {
+        if (existsSync(file.path)) {
+          report.ok(`Kept existing file: ${file.path}`);
+        } else {
+          writeFileSync(file.path, file.content, 'utf-8');
+          report.ok(`Created file: ${file.path}`);
+        }
+      }
+    }
+
+    console.log('\nNext steps:');
+    console.log('1. Add your API documentation files to the docs directory');
+    console.log('2. Customize the prompt files in the prompts directory');
+    console.log('3. Check them with: expert-server validate');
+    console.log('4. Generate the service description with: expert-server describe');
+  },
+};
@@ -0,0 +1,154 @@
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { CollectionConfig } from '../collections.js';
+import { hashDocumentation } from '../services/expertService.js';
+import {
+  DEFAULT_MAX_FILE_BYTES,
+  DocLoaderOptions,
+  extractDocumentation,
+  isDocumentationFile,
+  listDocsDirectory,
+} from '../services/docLoader.js';
+import { parsePromptTemplate } from '../services/promptTemplates.js';
+import { Command, Report, getDocLoaderOptions, hashDescriptionSources, isTemplateOnly, readDescriptionHash } from './common.js';
+
+// Files above this size are loaded, but usually hold generated or bundled content
+const MAX_DOCUMENTATION_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Checks the documentation files, reporting unreadable, binary and oversized ones
+ * @returns The readable documentation keyed by relative path, as the server loads it
+ */
+function validateDocs(collection: CollectionConfig, options: DocLoaderOptions, report: Report): Map<string, string> {
+  const documentation = new Map<string, string>();
+  if (!existsSync(collection.docsDir)) {
+    report.error(`Docs directory not found: ${collection.docsDir}. Run 'expert-server init' first`);
+    return documentation;
+  }
+
+  const maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+  for (const file of listDocsDirectory(collection.docsDir, options)) {
+    const path = join(collection.docsDir, file);
+    if (!isDocumentationFile(file)) {
+      report.warn(`Ignored ${path}: unsupported file type`);
+      continue;
+    }
+
+    let raw: string;
+    try {
+      const { size } = statSync(path);
+      if (size > maxFileBytes) {
+        report.warn(`Skipped ${path}: ${Math.ceil(size / 1024)} KB is above the limit of ${Math.floor(maxFileBytes / 1024)} KB (--max-doc-size)`);
+        continue;
+      }
+      raw = readFileSync(path, 'utf-8');
+    } catch (error) {
+      report.error(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+    const content = extractDocumentation(file, raw);
+    documentation.set(file, content);
+
+    const bytes = Buffer.byteLength(raw);
+    if (raw.includes('\u0000') || raw.includes('\uFFFD')) {
+      report.error(`${path} is not UTF-8 text`);
+    } else if (bytes > MAX_DOCUMENTATION_FILE_BYTES) {
+      report.warn(`${path} is ${(bytes / 1024 / 1024).toFixed(1)} MB; consider splitting it or removing generated content`);
+    } else if (content.trim() === '') {
+      report.warn(`${path} is empty`);
+    } else {
+      report.ok(`${path}`);
+    }
+  }
+
+  if (documentation.size === 0) {
+    report.error(`No documentation files found in ${collection.docsDir}`);
+  }
+  return documentation;
+}
+
+/**
+ * Checks the prompt files, reporting missing ones and metadata that was never filled in
+ */
+function validatePrompts(collection: CollectionConfig, documentation: Map<string, string>, report: Report): void {
+  const { promptsDir } = collection;
+  if (!existsSync(promptsDir)) {
+    report.error(`Prompts directory not found: ${promptsDir}. Run 'expert-server init' first`);
+    return;
+  }
+
+  const read = (file: string): string | undefined => {
+    const path = join(promptsDir, file);
+    if (!existsSync(path)) {
+      report.error(`Missing ${path}. Run 'expert-server init' to create it`);
+      return undefined;
+    }
+    try {
+      return readFileSync(path, 'utf-8');
+    } catch (error) {
+      report.error(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  };
+
+  const systemPrompt = read('system-prompt.txt');
+  if (systemPrompt !== undefined) {
+    if (systemPrompt.trim() === '') {
+      report.error(`${join(promptsDir, 'system-prompt.txt')} is empty`);
+    } else {
+      report.ok(join(promptsDir, 'system-prompt.txt'));
+    }
+  }
+
+  for (const file of ['tool-metadata.txt', 'query-metadata.txt']) {
+    const content = read(file);
+    if (content === undefined) {
+      continue;
+    }
+    if (isTemplateOnly(content)) {
+      report.warn(`${join(promptsDir, file)} still contains only the template comments`);
+    } else {
+      report.ok(join(promptsDir, file));
+    }
+  }
+
+  const description = read('service-description.txt');
+  if (description !== undefined) {
+    const descriptionPath = join(promptsDir, 'service-description.txt');
+    if (description.trim() === '') {
+      report.warn(`${descriptionPath} is empty. Run 'expert-server describe' to generate it`);
+    } else if (readDescriptionHash(promptsDir) !== hashDescriptionSources(hashDocumentation(documentation), promptsDir)) {
+      report.warn(`${descriptionPath} may be out of date. Run 'expert-server describe' to regenerate it`);
+    } else {
+      report.ok(descriptionPath);
+    }
+  }
+
+  const templatesDir = join(promptsDir, 'templates');
+  if (existsSync(templatesDir)) {
+    const files = readdirSync(templatesDir)
+      .filter(file => !file.startsWith('.') && (file.endsWith('.md') || file.endsWith('.txt')));
+    for (const file of files) {
+      try {
+        parsePromptTemplate(file, readFileSync(join(templatesDir, file), 'utf-8'));
+        report.ok(join(templatesDir, file));
+      } catch (error) {
+        report.warn(`Skipped template ${join(templatesDir, file)}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+}
+
+/**
+ * Checks each collection's documentation and prompt files without contacting the model
+ */
+export const validateCommand: Command = {
+  description: 'Check documentation and prompt files for problems',
+  async run({ config, collections, report }) {
+    for (const collection of collections) {
+      report.section(`Collection ${collection.name}`);
+      const documentation = validateDocs(collection, getDocLoaderOptions(config, collection), report);
+      validatePrompts(collection, documentation, report);
+    }
+  },
+};
@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConfigError, describeConfig, loadConfig, toServerConfig } from './config.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-config-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadConfig', () => {
+  it('lets command line options override the environment and defaults', () => {
+    const config = loadConfig(['--max-tokens', '500'], { EXPERT_MAX_TOKENS: '200' }, '/pkg')!;
+    expect(config.maxTokens).toBe(500);
+    expect(config.docsDir).toBe('/pkg/docs');
+    expect(loadConfig([], { EXPERT_MAX_TOKENS: '200' }, '/pkg')!.maxTokens).toBe(200);
+  });
+
+  it('returns undefined for --help and rejects unknown options', () => {
+    expect(loadConfig(['--help'], {}, '/pkg')).toBeUndefined();
+    expect(() => loadConfig(['--nope'], {}, '/pkg')).toThrow(ConfigError);
+    expect(() => loadConfig(['toString'], {}, '/pkg')).toThrow('Unknown option: toString');
+  });
+
+  it('reads a YAML config file and resolves its paths against the file', () => {
+    const file = join(dir, 'expert.config.yaml');
+    writeFileSync(file, 'docsDir: api-docs\nmaxTokens: 800\nwatch: false\n');
+    const config = loadConfig([], { EXPERT_CONFIG: file, EXPERT_MAX_TOKENS: '900' }, '/pkg')!;
+    expect(config.docsDir).toBe(join(dir, 'api-docs'));
+    expect(config.watch).toBe(false);
+    expect(config.maxTokens).toBe(900);
+    expect(loadConfig(['--config', file], {}, '/pkg')!.maxTokens).toBe(800);
+  });
+
+  it('names the source of every invalid setting', () => {
+    const file = join(dir, 'expert.config.json');
+    writeFileSync(file, JSON.stringify({ temperature: 2, colour: 'blue' }));
+    let message = '';
+    try {
+      loadConfig(['--config', file, '--port', '0'], {}, '/pkg');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      message = (error as Error).message;
+    }
+    expect(message).toContain(`temperature (from ${file})`);
+    expect(message).toContain('port (from --port)');
+    expect(message).toContain(`config (from ${file}): Unrecognized key(s) in object: 'colour'`);
+  });
+
+  it('rejects values that are not numbers, missing files and sampling over HTTP', () => {
+    expect(() => loadConfig([], { EXPERT_TIMEOUT: 'soon' }, '/pkg')).toThrow('Invalid value for EXPERT_TIMEOUT: "soon" is not a number');
+    expect(() => loadConfig(['--config', join(dir, 'missing.json')], {}, '/pkg')).toThrow('Config file not found');
+    expect(() => loadConfig(['--sampling', '--transport', 'http'], {}, '/pkg')).toThrow('sampling is only supported with the stdio transport');
+  });
+
+  it('converts durations to milliseconds for the server', () => {
+    const config = loadConfig(['--session-ttl', '2'], {}, '/pkg')!;
+    expect(toServerConfig(config).sessionTtlMs).toBe(2 * 60 * 1000);
+  });
+});
+
+describe('describeConfig', () => {
+  it('masks the values of the execute headers', () => {
+    const config = loadConfig([], {}, '/pkg', { executeHeaders: { Authorization: 'Bearer secret-token' } })!;
+    const description = describeConfig(config);
+    expect(description).not.toContain('secret-token');
+    expect(JSON.parse(description).executeHeaders).toEqual({ Authorization: '[REDACTED]' });
+    expect(JSON.parse(description).docsDir).toBe('/pkg/docs');
+  });
+});
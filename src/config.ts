@@ -0,0 +1,390 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from "zod";
+import { LOG_FORMATS, LOG_LEVELS, LoggerConfig } from './logger.js';
+import { CollectionConfig } from './collections.js';
+import { ServerConfig } from './server.js';
+
+const ConfigSchema = z.object({
+  docsDir: z.string().min(1, 'must not be empty'),
+  promptsDir: z.string().min(1, 'must not be empty'),
+  collections: z.string().min(1).optional(),
+  // Only settable in the config file
+  docsInclude: z.array(z.string().min(1)).optional(),
+  docsExclude: z.array(z.string().min(1)).optional(),
+  maxDocSize: z.number().positive().optional(),
+  transport: z.enum(['stdio', 'http']),
+  host: z.string().min(1, 'must not be empty'),
+  port: z.number().int().min(1).max(65535),
+  apiKeys: z.string().min(1).optional(),
+  provider: z.enum(['anthropic', 'openai', 'mock']).optional(),
+  baseUrl: z.string().url().optional(),
+  sampling: z.boolean(),
+  model: z.string().min(1).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  temperature: z.number().min(0).max(1).optional(),
+  timeout: z.number().positive(),
+  logLevel: z.enum(LOG_LEVELS),
+  logFormat: z.enum(LOG_FORMATS),
+  logFile: z.string().min(1).optional(),
+  logBodies: z.boolean(),
+  // Only settable in the config file
+  redactPatterns: z.array(z.string().refine((pattern) => {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'must be a valid regular expression')).optional(),
+  contextBudget: z.number().int().positive().optional(),
+  maxRepairAttempts: z.number().int().min(0).optional(),
+  maxRetries: z.number().int().min(0).optional(),
+  maxConcurrentRequests: z.number().int().positive().optional(),
+  queueTimeout: z.number().positive().optional(),
+  sessionTtl: z.number().positive().optional(),
+  maxSessions: z.number().int().positive().optional(),
+  sessionTokenBudget: z.number().int().positive().optional(),
+  watch: z.boolean(),
+  cacheDir: z.string().min(1).optional(),
+  cacheTtl: z.number().positive().optional(),
+  cacheMaxEntries: z.number().int().positive().optional(),
+  cacheMaxSize: z.number().positive().optional(),
+  executeBaseUrl: z.string().url().optional(),
+  executeAllowWrites: z.boolean(),
+  executeTimeout: z.number().positive().optional(),
+  executeMaxResponseSize: z.number().positive().optional(),
+  // Only settable in the config file
+  executeAllowedHosts: z.array(z.string().min(1)).optional(),
+  executeHeaders: z.record(z.string()).optional(),
+  // Only settable in the config file
+  prices: z.record(z.object({
+    input: z.number().min(0),
+    output: z.number().min(0),
+    cacheWrite: z.number().min(0).optional(),
+    cacheRead: z.number().min(0).optional(),
+  }).strict()).optional(),
+}).strict();
+
+/**
+ * Fully resolved server configuration. Durations use the same units as the
+ * command line: `timeout` and `queueTimeout` in seconds, `sessionTtl` and
+ * `cacheTtl` in minutes, `maxDocSize` and `executeMaxResponseSize` in kilobytes,
+ * `cacheMaxSize` in megabytes, `executeTimeout` in seconds.
+ */
+export type ExpertConfig = z.infer<typeof ConfigSchema>;
+
+type ConfigKey = keyof ExpertConfig;
+
+interface ConfigOption {
+  key: ConfigKey;
+  type: 'string' | 'number' | 'boolean';
+  description: string;
+  env?: string;
+  // For flags without a value, the value they set
+  value?: boolean;
+}
+
+/**
+ * Command line flags, in the order shown by --help
+ */
+const OPTIONS: Record<string, ConfigOption> = {
+  '--docs-dir': { key: 'docsDir', type: 'string', env: 'EXPERT_DOCS_DIR', description: 'Documentation directory' },
+  '--prompts-dir': { key: 'promptsDir', type: 'string', env: 'EXPERT_PROMPTS_DIR', description: 'Prompts directory' },
+  '--collections': { key: 'collections', type: 'string', description: 'Collections file for serving several documentation sets' },
+  '--max-doc-size': { key: 'maxDocSize', type: 'number', description: 'Skip documentation files larger than this many KB (default: 5120)' },
+  '--transport': { key: 'transport', type: 'string', description: 'stdio (default) or http' },
+  '--host': { key: 'host', type: 'string', description: 'Host to listen on with --transport http (default: 127.0.0.1)' },
+  '--port': { key: 'port', type: 'number', description: 'Port to listen on with --transport http (default: 3000)' },
+  '--api-keys': { key: 'apiKeys', type: 'string', description: 'Client API keys file for --transport http' },
+  '--provider': { key: 'provider', type: 'string', description: 'Model provider: anthropic, openai or mock' },
+  '--base-url': { key: 'baseUrl', type: 'string', description: 'Base URL for the openai provider' },
+  '--sampling': { key: 'sampling', type: 'boolean', value: true, description: 'Run completions through the MCP client' },
+  '--model': { key: 'model', type: 'string', env: 'EXPERT_MODEL', description: 'Model to use' },
+  '--max-tokens': { key: 'maxTokens', type: 'number', env: 'EXPERT_MAX_TOKENS', description: 'Maximum tokens in each response' },
+  '--temperature': { key: 'temperature', type: 'number', env: 'EXPERT_TEMPERATURE', description: 'Sampling temperature between 0 and 1' },
+  '--timeout': { key: 'timeout', type: 'number', env: 'EXPERT_TIMEOUT', description: 'Seconds after which a model request is aborted (default: 30)' },
+  '--log-level': { key: 'logLevel', type: 'string', env: 'EXPERT_LOG_LEVEL', description: `Log level: ${LOG_LEVELS.join(', ')} (default: debug)` },
+  '--log-format': { key: 'logFormat', type: 'string', env: 'EXPERT_LOG_FORMAT', description: 'Log format: text (default) or json for JSON lines' },
+  '--log-file': { key: 'logFile', type: 'string', env: 'EXPERT_LOG_FILE', description: 'Also append logs to this file' },
+  '--log-bodies': { key: 'logBodies', type: 'boolean', value: true, description: 'Log request and response bodies, with credentials masked' },
+  '--context-budget': { key: 'contextBudget', type: 'number', description: 'Maximum estimated tokens of documentation per request' },
+  '--max-repair-attempts': { key: 'maxRepairAttempts', type: 'number', description: 'Repair attempts for queries that fail validation' },
+  '--max-retries': { key: 'maxRetries', type: 'number', description: 'Retries for rate-limited, overloaded or unreachable providers' },
+  '--max-concurrent-requests': { key: 'maxConcurrentRequests', type: 'number', description: 'Maximum model calls in flight' },
+  '--queue-timeout': { key: 'queueTimeout', type: 'number', description: 'Seconds a model call waits for a free slot' },
+  '--session-ttl': { key: 'sessionTtl', type: 'number', description: 'Minutes after which an idle session expires' },
+  '--max-sessions': { key: 'maxSessions', type: 'number', description: 'Maximum number of sessions kept' },
+  '--session-token-budget': { key: 'sessionTokenBudget', type: 'number', description: 'Maximum estimated tokens of history per session' },
+  '--no-watch': { key: 'watch', type: 'boolean', value: false, description: 'Do not reload when files change' },
+  '--cache-dir': { key: 'cacheDir', type: 'string', description: 'Cache responses on disk in this directory' },
+  '--cache-ttl': { key: 'cacheTtl', type: 'number', description: 'Minutes after which cached responses expire' },
+  '--cache-max-entries': { key: 'cacheMaxEntries', type: 'number', description: 'Maximum number of cached responses' },
+  '--cache-max-size': { key: 'cacheMaxSize', type: 'number', description: 'Maximum total size of cached responses in MB' },
+  '--execute-base-url': { key: 'executeBaseUrl', type: 'string', env: 'EXPERT_EXECUTE_BASE_URL', description: 'Enable the run-query tool against this API' },
+  '--execute-allow-writes': { key: 'executeAllowWrites', type: 'boolean', value: true, description: 'Let run-query send POST, PUT, PATCH and DELETE requests and GraphQL mutations' },
+  '--execute-timeout': { key: 'executeTimeout', type: 'number', description: 'Seconds after which run-query gives up on the API (default: 10)' },
+  '--execute-max-response-size': { key: 'executeMaxResponseSize', type: 'number', description: 'KB of each API response returned by run-query (default: 64)' },
+};
+
+// Options holding paths; relative paths in a config file are resolved against the file's directory, others against the working directory
+const PATH_KEYS: ConfigKey[] = ['docsDir', 'promptsDir', 'collections', 'apiKeys', 'cacheDir', 'logFile'];
+
+const CONFIG_FILE_NAMES = ['expert.config.json', 'expert.config.yaml', 'expert.config.yml'];
+
+/**
+ * Error for configuration that cannot be used
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Gets the usage text listing the command line flags
+ * @param commands - Descriptions of the subcommands, keyed by name
+ * @returns The usage text
+ */
+export function getUsage(commands: Record<string, string> = {}): string {
+  const width = Math.max(...Object.keys(OPTIONS).map(flag => flag.length)) + 8;
+  const lines = Object.entries(OPTIONS).map(([flag, option]) => {
+    const name = option.value === undefined ? `${flag} <${option.type === 'number' ? 'n' : 'value'}>` : flag;
+    return `  ${name.padEnd(width)}${option.description}${option.env ? ` [${option.env}]` : ''}`;
+  });
+  // Usages longer than the column put the description on the next line
+  const commandLines = Object.entries(commands).map(([name, description]) => name.length < width
+    ? `  ${name.padEnd(width)}${description}`
+    : `  ${name}\n  ${''.padEnd(width)}${description}`);
+  return [
+    'Usage: expert-server [command] [options]',
+    '',
+    ...(commandLines.length > 0 ? ['Commands:', ...commandLines, '', 'Without a command, the MCP server is started.', ''] : []),
+    'Options:',
+    `  ${'--config <file>'.padEnd(width)}Config file (default: ${CONFIG_FILE_NAMES[0]} in the current directory) [EXPERT_CONFIG]`,
+    ...lines,
+    `  ${'--help'.padEnd(width)}Show this help`,
+    '',
+    'Settings are taken from, in increasing order of precedence: defaults,',
+    'the config file, environment variables, and command line flags.',
+  ].join('\n');
+}
+
+/**
+ * Converts a string from the command line or environment to an option's type
+ */
+function convertValue(option: ConfigOption, raw: string, source: string): string | number {
+  if (option.type === 'number') {
+    const value = Number(raw);
+    if (raw.trim() === '' || isNaN(value)) {
+      throw new ConfigError(`Invalid value for ${source}: "${raw}" is not a number`);
+    }
+    return value;
+  }
+  return raw;
+}
+
+/**
+ * Reads a JSON or YAML config file
+ */
+function readConfigFile(path: string): Record<string, unknown> {
+  let raw: unknown;
+  try {
+    const content = readFileSync(path, 'utf-8');
+    raw = /\.ya?ml$/i.test(path) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`Failed to read config file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(`Invalid config file ${path}: expected an object of settings`);
+  }
+
+  const baseDir = dirname(resolve(path));
+  const settings = { ...raw as Record<string, unknown> };
+  for (const key of PATH_KEYS) {
+    if (typeof settings[key] === 'string' && settings[key]) {
+      settings[key] = resolve(baseDir, settings[key] as string);
+    }
+  }
+  return settings;
+}
+
+/**
+ * Resolves the server configuration from defaults, a config file,
+ * environment variables and command line arguments, in increasing order
+ * of precedence, and validates the result
+ * @param argv - Command line arguments, without the node and script paths
+ * @param env - Environment variables
+ * @param packageDir - Directory holding the default docs and prompts directories
+ * @param defaults - Defaults replacing the built-in ones
+ * @returns The configuration, or undefined if --help was given
+ * @throws ConfigError describing every invalid setting
+ */
+export function loadConfig(
+  argv: string[],
+  env: NodeJS.ProcessEnv,
+  packageDir: string,
+  defaults?: Partial<ExpertConfig>
+): ExpertConfig | undefined {
+  const values: Partial<Record<ConfigKey, unknown>> = {
+    docsDir: join(packageDir, 'docs'),
+    promptsDir: join(packageDir, 'prompts'),
+    transport: 'stdio',
+    host: '127.0.0.1',
+    port: 3000,
+    sampling: false,
+    timeout: 30,
+    logLevel: 'debug',
+    logFormat: 'text',
+    logBodies: false,
+    watch: true,
+    executeAllowWrites: false,
+    ...defaults,
+  };
+  const sources: Partial<Record<ConfigKey, string>> = {};
+
+  // Parse the command line first so --config can choose the file
+  let configPath = env.EXPERT_CONFIG;
+  const flags: Partial<Record<ConfigKey, unknown>> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      return undefined;
+    }
+    if (arg === '--config') {
+      if (i + 1 >= argv.length) {
+        throw new ConfigError('Missing value for --config');
+      }
+      configPath = argv[++i];
+      continue;
+    }
+    const option = Object.hasOwn(OPTIONS, arg) ? OPTIONS[arg] : undefined;
+    if (!option) {
+      throw new ConfigError(`Unknown option: ${arg}\n\n${getUsage()}`);
+    }
+    if (option.value !== undefined) {
+      flags[option.key] = option.value;
+    } else {
+      if (i + 1 >= argv.length) {
+        throw new ConfigError(`Missing value for ${arg}`);
+      }
+      flags[option.key] = convertValue(option, argv[++i], arg);
+    }
+    sources[option.key] = arg;
+  }
+
+  if (!configPath) {
+    configPath = CONFIG_FILE_NAMES.find(name => existsSync(name));
+  } else if (!existsSync(configPath)) {
+    throw new ConfigError(`Config file not found: ${configPath}`);
+  }
+  if (configPath) {
+    for (const [key, value] of Object.entries(readConfigFile(configPath))) {
+      values[key as ConfigKey] = value;
+      sources[key as ConfigKey] ??= configPath;
+    }
+  }
+
+  for (const option of Object.values(OPTIONS)) {
+    const raw = option.env ? env[option.env] : undefined;
+    if (raw !== undefined && raw !== '' && !(option.key in flags)) {
+      values[option.key] = convertValue(option, raw, option.env!);
+      sources[option.key] = option.env;
+    }
+  }
+  Object.assign(values, flags);
+  for (const key of PATH_KEYS) {
+    if (typeof values[key] === 'string' && values[key]) {
+      values[key] = resolve(values[key] as string);
+    }
+  }
+
+  const result = ConfigSchema.safeParse(values);
+  if (!result.success) {
+    const problems = result.error.errors.map((e) => {
+      const key = e.path[0] as ConfigKey | undefined;
+      // Only a config file can contain unknown settings
+      const from = key ? sources[key] : configPath;
+      const source = from ? ` (from ${from})` : '';
+      return `  ${e.path.join(".") || 'config'}${source}: ${e.message}`;
+    });
+    throw new ConfigError(`Invalid configuration:\n${problems.join('\n')}`);
+  }
+  if (result.data.sampling && result.data.transport !== 'stdio') {
+    throw new ConfigError('Invalid configuration: sampling is only supported with the stdio transport');
+  }
+  return result.data;
+}
+
+/**
+ * Formats the configuration for logging, masking the values of
+ * `executeHeaders`, which typically hold API credentials
+ * @param config - The resolved configuration
+ * @returns The configuration as JSON
+ */
+export function describeConfig(config: ExpertConfig): string {
+  const executeHeaders = config.executeHeaders
+    && Object.fromEntries(Object.keys(config.executeHeaders).map(name => [name, '[REDACTED]']));
+  return JSON.stringify({ ...config, executeHeaders });
+}
+
+/**
+ * Converts the configuration to the logger settings
+ * @param config - The resolved configuration
+ * @returns The logger settings
+ */
+export function toLoggerConfig(config: ExpertConfig): LoggerConfig {
+  return {
+    level: config.logLevel,
+    format: config.logFormat,
+    file: config.logFile,
+    logBodies: config.logBodies,
+    redactPatterns: config.redactPatterns,
+  };
+}
+
+/**
+ * Converts the configuration to the options of the MCP server
+ * @param config - The resolved configuration
+ * @param collections - Collections loaded from the collections file, if any
+ * @returns The server options
+ */
+export function toServerConfig(config: ExpertConfig, collections?: CollectionConfig[]): ServerConfig {
+  const toMs = (value: number | undefined, unitMs: number) => value === undefined ? undefined : value * unitMs;
+  return {
+    provider: { type: config.provider, baseUrl: config.baseUrl },
+    useSampling: config.sampling,
+    model: config.model,
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+    docsDir: config.docsDir,
+    promptsDir: config.promptsDir,
+    docsInclude: config.docsInclude,
+    docsExclude: config.docsExclude,
+    maxDocBytes: config.maxDocSize === undefined ? undefined : config.maxDocSize * 1024,
+    contextBudget: config.contextBudget,
+    maxRepairAttempts: config.maxRepairAttempts,
+    sessionTtlMs: toMs(config.sessionTtl, 60 * 1000),
+    maxSessions: config.maxSessions,
+    sessionTokenBudget: config.sessionTokenBudget,
+    requestTimeoutMs: toMs(config.timeout, 1000),
+    maxRetries: config.maxRetries,
+    maxConcurrentRequests: config.maxConcurrentRequests,
+    queueTimeoutMs: toMs(config.queueTimeout, 1000),
+    cacheDir: config.cacheDir,
+    cacheTtlMs: toMs(config.cacheTtl, 60 * 1000),
+    cacheMaxEntries: config.cacheMaxEntries,
+    cacheMaxBytes: config.cacheMaxSize === undefined ? undefined : config.cacheMaxSize * 1024 * 1024,
+    prices: config.prices,
+    executeBaseUrl: config.executeBaseUrl,
+    executeAllowedHosts: config.executeAllowedHosts,
+    executeAllowWrites: config.executeAllowWrites,
+    executeHeaders: config.executeHeaders,
+    executeTimeoutMs: toMs(config.executeTimeout, 1000),
+    executeMaxResponseBytes: config.executeMaxResponseSize === undefined ? undefined : config.executeMaxResponseSize * 1024,
+    watch: config.watch,
+    collections,
+  };
+}
@@ -0,0 +1,150 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { createExpertContext, createServer, ServerConfig } from "./server.js";
+import { ApiKeyConfig, authenticateRequest } from "./auth.js";
+import { ClientQuota } from "./services/clientQuota.js";
+import { debugLog } from "./logger.js";
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  apiKeys?: ApiKeyConfig[];
+}
+
+interface HttpSession {
+  transport: SSEServerTransport;
+  client?: string;
+}
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const METRICS_PATH = '/metrics';
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Serves the expert server to multiple clients over HTTP with Server-Sent Events.
+ * Each client opens an event stream at /sse and posts its messages to
+ * /messages?sessionId=<id>; all clients share the same loaded documentation.
+ * When API keys are configured, both endpoints require a key, each key's
+ * quota is shared by all of its sessions, and conversation sessions are
+ * scoped to the key. Usage metrics for all sessions are
+ * served in the Prometheus text format at /metrics, which requires a key too.
+ * @param config - Server configuration
+ * @param options - Host and port to listen on
+ * @returns The listening HTTP server
+ */
+export async function startHttpServer(config: ServerConfig, options: HttpServerOptions): Promise<HttpServer> {
+  const context = createExpertContext(config);
+  const sessions: Map<string, HttpSession> = new Map();
+  const quotas: Map<string, ClientQuota> = new Map(
+    (options.apiKeys || []).map((key) => [key.name, new ClientQuota(key.name, key)])
+  );
+
+  /**
+   * Authenticates a request, sending a 401 response if keys are configured and none matched
+   * @returns The client's key (undefined when authentication is disabled), or false if rejected
+   */
+  const authenticate = (req: IncomingMessage, res: ServerResponse): ApiKeyConfig | undefined | false => {
+    if (!options.apiKeys) {
+      return undefined;
+    }
+    const key = authenticateRequest(req.headers, options.apiKeys);
+    if (!key) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Missing or invalid API key' });
+      return false;
+    }
+    return key;
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, {
+        status: 'ok',
+        sessions: sessions.size,
+        collections: Array.from(context.collections.keys()),
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === METRICS_PATH) {
+      if (authenticate(req, res) === false) {
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(context.metrics.toPrometheus());
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      const key = authenticate(req, res);
+      if (key === false) {
+        return;
+      }
+      const client = key?.name;
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      const server = await createServer(config, context, {
+        name: client,
+        admin: key?.admin,
+        quota: client ? quotas.get(client) : undefined,
+      });
+      sessions.set(transport.sessionId, { transport, client });
+      // The transport closes the server when the event stream ends
+      res.on('close', () => {
+        sessions.delete(transport.sessionId);
+        debugLog(`HTTP session ${transport.sessionId} closed`);
+      });
+      await server.connect(transport);
+      debugLog(`HTTP session ${transport.sessionId} opened${client ? ` for ${client}` : ''}`);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+      const key = authenticate(req, res);
+      if (key === false) {
+        return;
+      }
+      const sessionId = url.searchParams.get('sessionId');
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      // Sessions can only be used with the key that opened them
+      if (!session || session.client !== key?.name) {
+        sendJson(res, 404, { error: `Unknown session: ${sessionId}` });
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      debugLog(`Error handling ${req.method} ${req.url}: ${error}`);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+      } else {
+        res.end();
+      }
+    });
+  });
+  httpServer.on('close', () => context.close());
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  return httpServer;
+}
@@ -1,95 +1,92 @@
 #!/usr/bin/env node
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createServer } from "./server.js";
+import { startHttpServer } from "./httpServer.js";
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { ConfigError, ExpertConfig, describeConfig, getUsage, loadConfig, toLoggerConfig, toServerConfig } from "./config.js";
+import { COMMANDS, getCommandDescriptions, runCommand } from "./commands/index.js";
+import { configureLogger, debugLog, errorLog, infoLog, warnLog } from "./logger.js";
+import { loadCollectionsConfig } from "./collections.js";
+import { loadApiKeys } from "./auth.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-function debugLog(message: string, error?: any) {
-  const timestamp = new Date().toISOString();
-  if (error) {
-    console.error(`[DEBUG ${timestamp}] ${message}`, error);
-    if (error.stack) {
-      console.error(`[DEBUG ${timestamp}] Stack trace:`, error.stack);
-    }
-  } else {
-    console.error(`[DEBUG ${timestamp}] ${message}`);
+async function main() {
+  const argv = process.argv.slice(2);
+  const packageDir = join(__dirname, '..');
+  // Only the commands themselves, not names inherited from Object.prototype
+  if (argv.length > 0 && Object.hasOwn(COMMANDS, argv[0])) {
+    process.exit(await runCommand(argv[0], argv.slice(1), packageDir));
   }
-}
 
-interface ServerOptions {
-  model?: string;
-  maxTokens?: number;
-}
-
-function parseArguments(): ServerOptions {
-  const options: ServerOptions = {};
-  
-  debugLog('Parsing command line arguments:', process.argv);
-  for (let i = 2; i < process.argv.length; i++) {
-    const arg = process.argv[i];
-    if (arg === '--model' && i + 1 < process.argv.length) {
-      options.model = process.argv[++i];
-    } else if (arg === '--max-tokens' && i + 1 < process.argv.length) {
-      const tokens = parseInt(process.argv[++i]);
-      if (!isNaN(tokens)) {
-        options.maxTokens = tokens;
-      }
+  let config: ExpertConfig | undefined;
+  try {
+    config = loadConfig(argv, process.env, packageDir);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      errorLog(error.message);
+      process.exit(1);
     }
+    throw error;
   }
-  
-  return options;
-}
+  if (!config) {
+    console.log(getUsage(getCommandDescriptions()));
+    return;
+  }
+  configureLogger(toLoggerConfig(config));
 
-async function main() {
   try {
     debugLog('Starting Expert MCP Server...');
     debugLog(`Current directory: ${process.cwd()}`);
     debugLog(`Script directory: ${__dirname}`);
+    debugLog(`Configuration: ${describeConfig(config)}`);
     
-    const options = parseArguments();
-    if (options.model) {
-      debugLog(`Using model: ${options.model}`);
-    }
-    if (options.maxTokens) {
-      debugLog(`Max tokens: ${options.maxTokens}`);
+    const collections = config.collections ? loadCollectionsConfig(config.collections) : undefined;
+    if (collections) {
+      debugLog(`Serving collections: ${collections.map((collection) => collection.name).join(', ')}`);
     }
     
-    const docsDir = join(__dirname, '../docs');
-    const promptsDir = join(__dirname, '../prompts');
+    const serverConfig = toServerConfig(config, collections);
     
-    debugLog(`Docs directory: ${docsDir}`);
-    debugLog(`Prompts directory: ${promptsDir}`);
+    if (config.transport === 'http') {
+      const { host, port } = config;
+      const apiKeys = config.apiKeys ? loadApiKeys(config.apiKeys) : undefined;
+      if (apiKeys) {
+        debugLog(`Requiring API keys for: ${apiKeys.map((key) => key.name).join(', ')}`);
+      } else if (host !== '127.0.0.1' && host !== 'localhost') {
+        warnLog(`Listening on ${host} without --api-keys; anyone who can reach the server can use it`);
+      }
+      await startHttpServer(serverConfig, { host, port, apiKeys });
+      infoLog(`Expert MCP Server listening on http://${host}:${port}/sse`);
+      return;
+    }
     
-    const server = await createServer({
-      ...options,
-      docsDir,
-      promptsDir
-    });
+    const server = await createServer(serverConfig);
     
     debugLog('Server created, initializing transport...');
-    const transport = new StdioServerTransport();
+    const stdioTransport = new StdioServerTransport();
     
     debugLog('Connecting to transport...');
-    await server.connect(transport);
-    debugLog("Expert MCP Server running on stdio");
+    await server.connect(stdioTransport);
+    infoLog("Expert MCP Server running on stdio");
   } catch (error) {
-    debugLog("Fatal error:", error);
+    errorLog(`Failed to start: ${error instanceof Error ? error.message : error}`);
+    debugLog('Startup failure details:', error);
     process.exit(1);
   }
 }
 
 // Handle promise rejections
 process.on('unhandledRejection', (error) => {
-  debugLog('Unhandled promise rejection:', error);
+  errorLog('Unhandled promise rejection:', error);
   process.exit(1);
 });
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
-  debugLog('Uncaught exception:', error);
+  errorLog('Uncaught exception:', error);
   process.exit(1);
 });
 
@@ -99,6 +96,6 @@ process.on('exit', (code) => {
 });
 
 main().catch((error) => {
-  debugLog("Unhandled error:", error);
+  errorLog("Unhandled error:", error);
   process.exit(1);
 });
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LogEntry, addLogSink, configureLogger, debugLog, errorLog, infoLog, redactBody, warnLog, withLogContext } from './logger.js';
+
+let lines: string[];
+
+beforeEach(() => {
+  lines = [];
+  vi.spyOn(console, 'error').mockImplementation((line: string) => { lines.push(line); });
+});
+
+afterEach(() => {
+  configureLogger({ level: 'debug', format: 'text', logBodies: false, redactPatterns: [] });
+  vi.restoreAllMocks();
+});
+
+describe('redactBody', () => {
+  it('only shows the length unless body logging is enabled', () => {
+    expect(redactBody({ request: 'list users' })).toBe('[24 chars]');
+  });
+
+  it('masks credentials and configured patterns', () => {
+    configureLogger({ logBodies: true, redactPatterns: ['acct-\\d+'] });
+    expect(redactBody('Authorization: Bearer abc.def and sk-0123456789abcdefgh')).toBe('"Authorization: [REDACTED] and [REDACTED]"');
+    expect(redactBody({ api_key: 'hunter2', account: 'acct-42' })).toBe('{"api_key":"[REDACTED]","account":"[REDACTED]"}');
+  });
+});
+
+describe('logging', () => {
+  it('writes messages at or above the configured level to stderr', () => {
+    configureLogger({ level: 'warn' });
+    debugLog('debug message');
+    infoLog('info message');
+    warnLog('warn message');
+    errorLog('error message', new Error('boom'));
+    expect(lines[0]).toBe('[WARN] warn message');
+    expect(lines[1]).toMatch(/^\[ERROR\] error message\n\[ERROR\] Stack trace: Error: boom/);
+    expect(lines).toHaveLength(2);
+  });
+
+  it('attaches the request context and writes JSON lines without the owner', async () => {
+    configureLogger({ format: 'json' });
+    await withLogContext({ requestId: 'req-1', tool: 'stats', owner: {} }, async () => {
+      await Promise.resolve();
+      infoLog('answered');
+    });
+    const entry = JSON.parse(lines[0]);
+    expect(entry).toMatchObject({ level: 'info', message: 'answered', requestId: 'req-1', tool: 'stats' });
+    expect(entry).not.toHaveProperty('owner');
+  });
+
+  it('passes entries to sinks until they are removed, without forwarding their own messages', () => {
+    const entries: LogEntry[] = [];
+    const remove = addLogSink(entry => {
+      entries.push(entry);
+      warnLog('forwarding failed');
+    });
+    infoLog('first');
+    remove();
+    infoLog('second');
+    expect(entries.map(entry => entry.message)).toEqual(['first']);
+    expect(lines).toEqual(['[INFO] first', '[WARN] forwarding failed', '[INFO] second']);
+  });
+});
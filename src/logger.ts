@@ -0,0 +1,183 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { appendFileSync } from 'fs';
+
+/**
+ * Log levels, from most to least verbose
+ */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Output formats: `[LEVEL] message` lines, or one JSON object per line
+ */
+export const LOG_FORMATS = ['text', 'json'] as const;
+
+export type LogFormat = typeof LOG_FORMATS[number];
+
+/**
+ * Logger settings
+ */
+export interface LoggerConfig {
+  level?: LogLevel;
+  format?: LogFormat;
+  // Also append log lines to this file
+  file?: string;
+  // Log request and response bodies instead of their length
+  logBodies?: boolean;
+  // Regular expressions whose matches are masked in logged bodies
+  redactPatterns?: string[];
+}
+
+/**
+ * Values attached to every message logged while handling one request
+ */
+export interface LogContext {
+  requestId: string;
+  tool?: string;
+  // Identifies the connection the request came from, so sinks can skip other clients' messages
+  owner?: unknown;
+}
+
+/**
+ * A single log message, as passed to sinks
+ */
+export interface LogEntry extends Partial<LogContext> {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  message: string;
+  error?: string;
+}
+
+// Masks common credentials in logged bodies, keeping the key name
+const DEFAULT_REDACT_PATTERNS = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bBearer\s+[A-Za-z0-9._~+/=-]+/gi,
+  /((?:api[_-]?key|token|secret|password)["']?\s*[:=]\s*["']?)[^\s"',}]+/gi,
+];
+
+let currentLevel: LogLevel = 'debug';
+let format: LogFormat = 'text';
+let logFile: string | undefined;
+let logBodies = false;
+let redactPatterns: RegExp[] = [];
+const contextStorage = new AsyncLocalStorage<LogContext>();
+const sinks = new Set<(entry: LogEntry) => void>();
+let dispatching = false;
+
+/**
+ * Applies logger settings; settings that are not given keep their current value
+ * @param config - The logger settings
+ */
+export function configureLogger(config: LoggerConfig) {
+  currentLevel = config.level ?? currentLevel;
+  format = config.format ?? format;
+  logFile = config.file ?? logFile;
+  logBodies = config.logBodies ?? logBodies;
+  if (config.redactPatterns) {
+    redactPatterns = config.redactPatterns.map(pattern => new RegExp(pattern, 'g'));
+  }
+}
+
+/**
+ * Runs a function with a context that is attached to every message it logs,
+ * including messages logged by asynchronous work it starts
+ * @param context - The request ID and related values
+ * @param fn - The function to run
+ * @returns The function's result
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run(context, fn);
+}
+
+/**
+ * Adds a function that receives every message at or above the configured level
+ * @param sink - The function to call
+ * @returns A function that removes the sink
+ */
+export function addLogSink(sink: (entry: LogEntry) => void): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+/**
+ * Formats a request or response body for logging. Unless body logging is
+ * enabled only its length is shown; otherwise credentials and configured
+ * patterns are masked.
+ * @param body - The body to log
+ * @returns The text to include in a log message
+ */
+export function redactBody(body: unknown): string {
+  const text = JSON.stringify(body) ?? String(body);
+  if (!logBodies) {
+    return `[${text.length} chars]`;
+  }
+  let redacted = text;
+  for (const pattern of DEFAULT_REDACT_PATTERNS) {
+    redacted = redacted.replace(pattern, (match, prefix) => typeof prefix === 'string' ? `${prefix}[REDACTED]` : '[REDACTED]');
+  }
+  for (const pattern of redactPatterns) {
+    redacted = redacted.replace(pattern, '[REDACTED]');
+  }
+  return redacted;
+}
+
+function write(level: Exclude<LogLevel, 'silent'>, message: string, error?: any) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(currentLevel)) {
+    return;
+  }
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level,
+    message,
+    ...contextStorage.getStore(),
+    error: error?.stack || (error !== undefined ? String(error) : undefined),
+  };
+
+  let line: string;
+  if (format === 'json') {
+    const { owner, ...fields } = entry;
+    line = JSON.stringify(fields);
+  } else {
+    const prefix = `[${level.toUpperCase()}]${entry.requestId ? ` [${entry.requestId}]` : ''}`;
+    line = `${prefix} ${message}${entry.error ? `\n${prefix} ${error?.stack ? 'Stack trace: ' : ''}${entry.error}` : ''}`;
+  }
+  // stdout carries the MCP protocol, so all logging goes to stderr
+  console.error(line);
+  if (logFile) {
+    try {
+      appendFileSync(logFile, `${line}\n`);
+    } catch (fileError) {
+      console.error(`[ERROR] Failed to write log file ${logFile}: ${fileError}`);
+      logFile = undefined;
+    }
+  }
+
+  // Sinks may log themselves, e.g. when forwarding fails; those messages are not forwarded again
+  if (!dispatching) {
+    dispatching = true;
+    try {
+      sinks.forEach(sink => sink(entry));
+    } finally {
+      dispatching = false;
+    }
+  }
+}
+
+export function debugLog(message: string, error?: any) {
+  write('debug', message, error);
+}
+
+export function infoLog(message: string, error?: any) {
+  write('info', message, error);
+}
+
+export function warnLog(message: string, error?: any) {
+  write('warn', message, error);
+}
+
+export function errorLog(message: string, error?: any) {
+  write('error', message, error);
+}
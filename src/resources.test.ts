@@ -0,0 +1,70 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildResourceUri, getMimeType, listDocResources, parseResourceUri, readDocResource } from './resources.js';
+import { ExpertService } from './services/expertService.js';
+import { MockProvider } from './services/providers/index.js';
+import { REQUIRED_PROMPT_FILES } from './server.js';
+
+describe('resource URIs', () => {
+  it('round-trips files, anchors and collections', () => {
+    const uri = buildResourceUri('guides/users api.md', 'list-users', 'billing');
+    expect(uri).toBe('docs://collections/billing/files/guides%2Fusers%20api.md#list-users');
+    expect(parseResourceUri(uri)).toEqual({ collection: 'billing', file: 'guides/users api.md', anchor: 'list-users' });
+    expect(parseResourceUri(buildResourceUri('api.md'))).toEqual({ collection: undefined, file: 'api.md', anchor: undefined });
+  });
+
+  it('rejects other and malformed URIs', () => {
+    expect(parseResourceUri('https://example.com/api.md')).toBeUndefined();
+    expect(parseResourceUri('docs://collections/billing/api.md')).toBeUndefined();
+    expect(parseResourceUri('docs://files/%E0%A4%A')).toBeUndefined();
+  });
+
+  it('maps extensions to MIME types', () => {
+    expect(getMimeType('spec.YAML')).toBe('application/yaml');
+    expect(getMimeType('page.html')).toBe('text/markdown');
+    expect(getMimeType('notes')).toBe('text/plain');
+  });
+});
+
+describe('documentation resources', () => {
+  let dir: string;
+  let service: ExpertService;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'expert-resources-'));
+    mkdirSync(join(dir, 'docs'));
+    mkdirSync(join(dir, 'prompts'));
+    writeFileSync(join(dir, 'docs', 'api.md'), '# Users\n\nList users.\n\n# Orders\n\nCreate orders.');
+    writeFileSync(join(dir, 'docs', 'notes.txt'), 'Rate limits apply.');
+    for (const file of REQUIRED_PROMPT_FILES) {
+      writeFileSync(join(dir, 'prompts', file), `${file} contents`);
+    }
+    service = new ExpertService({ llmProvider: new MockProvider(), docsDir: join(dir, 'docs'), promptsDir: join(dir, 'prompts') });
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists each file followed by its sections, when it has several', () => {
+    expect(listDocResources(service).map(resource => resource.uri)).toEqual([
+      'docs://files/api.md',
+      'docs://files/api.md#users',
+      'docs://files/api.md#orders',
+      'docs://files/notes.txt',
+    ]);
+  });
+
+  it('reads files and sections', () => {
+    expect(readDocResource(service, 'docs://files/notes.txt')).toEqual({
+      uri: 'docs://files/notes.txt',
+      mimeType: 'text/plain',
+      text: 'Rate limits apply.',
+    });
+    expect(readDocResource(service, 'docs://files/api.md#orders')?.text).toContain('Create orders.');
+    expect(readDocResource(service, 'docs://files/api.md#missing')).toBeUndefined();
+    expect(readDocResource(service, 'docs://files/missing.md')).toBeUndefined();
+  });
+});
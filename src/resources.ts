@@ -0,0 +1,151 @@
+import { ExpertService } from "./services/expertService.js";
+import { extname } from 'path';
+
+const URI_PREFIX = 'docs://files/';
+const COLLECTION_URI_PREFIX = 'docs://collections/';
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.graphql': 'application/graphql',
+  '.gql': 'application/graphql',
+  // Served as the text extracted when loading
+  '.html': 'text/markdown',
+  '.htm': 'text/markdown',
+  '.rst': 'text/x-rst',
+};
+
+/**
+ * Interface for an MCP resource entry
+ */
+export interface DocResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * Gets the MIME type for a documentation file
+ * @param file - The documentation file name
+ * @returns The MIME type, defaulting to text/plain
+ */
+export function getMimeType(file: string): string {
+  return MIME_TYPES[extname(file).toLowerCase()] || 'text/plain';
+}
+
+/**
+ * Builds the resource URI for a documentation file or one of its sections
+ * @param file - The documentation file name
+ * @param anchor - Optional section anchor
+ * @param collection - Collection name, when serving several collections
+ * @returns The resource URI
+ */
+export function buildResourceUri(file: string, anchor?: string, collection?: string): string {
+  const prefix = collection
+    ? `${COLLECTION_URI_PREFIX}${encodeURIComponent(collection)}/files/`
+    : URI_PREFIX;
+  const uri = `${prefix}${encodeURIComponent(file)}`;
+  return anchor ? `${uri}#${encodeURIComponent(anchor)}` : uri;
+}
+
+/**
+ * Parses a resource URI into its collection, file name and optional section anchor
+ * @param uri - The resource URI
+ * @returns The parsed parts, or undefined if the URI is not a documentation URI
+ */
+export function parseResourceUri(uri: string): { collection?: string; file: string; anchor?: string } | undefined {
+  let collection: string | undefined;
+  let rest: string;
+  if (uri.startsWith(URI_PREFIX)) {
+    rest = uri.slice(URI_PREFIX.length);
+  } else if (uri.startsWith(COLLECTION_URI_PREFIX)) {
+    const match = /^([^/]+)\/files\/(.*)$/.exec(uri.slice(COLLECTION_URI_PREFIX.length));
+    if (!match) {
+      return undefined;
+    }
+    collection = match[1];
+    rest = match[2];
+  } else {
+    return undefined;
+  }
+
+  const [file, anchor] = rest.split('#', 2);
+  try {
+    return {
+      collection: collection ? decodeURIComponent(collection) : undefined,
+      file: decodeURIComponent(file),
+      anchor: anchor ? decodeURIComponent(anchor) : undefined,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lists every documentation file and section as a resource
+ * @param expertService - The service holding the loaded documentation
+ * @param collection - Collection name, when serving several collections
+ * @returns Array of resources, each file followed by its sections
+ */
+export function listDocResources(expertService: ExpertService, collection?: string): DocResource[] {
+  const resources: DocResource[] = [];
+  const sections = expertService.getDocumentationSections();
+
+  for (const file of expertService.getDocumentationFiles().keys()) {
+    const mimeType = getMimeType(file);
+    resources.push({
+      uri: buildResourceUri(file, undefined, collection),
+      name: collection ? `${collection}/${file}` : file,
+      description: `Documentation file ${file}`,
+      mimeType,
+    });
+
+    const fileSections = sections.filter(section => section.file === file);
+    // A single section is the whole file, so listing it again adds nothing
+    if (fileSections.length > 1) {
+      for (const section of fileSections) {
+        resources.push({
+          uri: buildResourceUri(file, section.anchor, collection),
+          name: `${collection ? `${collection}/` : ''}${file}: ${section.title}`,
+          description: section.startLine
+            ? `Lines ${section.startLine}-${section.endLine} of ${file}`
+            : `Section ${section.anchor} of ${file}`,
+          mimeType,
+        });
+      }
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Reads the contents of a documentation file or section resource
+ * @param expertService - The service holding the loaded documentation
+ * @param uri - The resource URI
+ * @returns The resource contents, or undefined if the resource does not exist
+ */
+export function readDocResource(expertService: ExpertService, uri: string): { uri: string; mimeType: string; text: string } | undefined {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const content = expertService.getDocumentationFiles().get(parsed.file);
+  if (content === undefined) {
+    return undefined;
+  }
+
+  const mimeType = getMimeType(parsed.file);
+  if (!parsed.anchor) {
+    return { uri, mimeType, text: content };
+  }
+
+  const section = expertService.getDocumentationSections()
+    .find(candidate => candidate.file === parsed.file && candidate.anchor === parsed.anchor);
+  return section ? { uri, mimeType, text: section.content } : undefined;
+}
@@ -0,0 +1,102 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createExpertContext, createServer, ExpertContext, REQUIRED_PROMPT_FILES, ServerClient, ServerConfig } from './server.js';
+
+let dir: string;
+let config: ServerConfig;
+let context: ExpertContext;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-server-'));
+  mkdirSync(join(dir, 'docs'));
+  mkdirSync(join(dir, 'prompts'));
+  writeFileSync(join(dir, 'docs', 'api.md'), '# Users\n\nList users with GET /users.');
+  for (const file of REQUIRED_PROMPT_FILES) {
+    writeFileSync(join(dir, 'prompts', file), `${file} contents`);
+  }
+  config = {
+    provider: { type: 'mock' },
+    docsDir: join(dir, 'docs'),
+    promptsDir: join(dir, 'prompts'),
+    cacheDir: join(dir, 'cache'),
+    watch: false,
+  };
+  context = createExpertContext(config);
+});
+
+afterEach(() => {
+  context.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Connects an MCP client to a server on the shared context
+ */
+async function connect(client?: ServerClient): Promise<Client> {
+  const server = await createServer(config, context, client);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const mcpClient = new Client({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+  await mcpClient.connect(clientTransport);
+  return mcpClient;
+}
+
+async function callText(client: Client, name: string, args: Record<string, unknown> = {}): Promise<string> {
+  const result = await client.callTool({ name, arguments: args });
+  return (result.content as { text: string }[])[0].text;
+}
+
+describe('createServer', () => {
+  it('only offers the cache tools to the local user and admin keys', async () => {
+    const toolNames = async (client?: ServerClient) => (await (await connect(client)).listTools()).tools.map(tool => tool.name);
+    expect(await toolNames()).toContain('purge-cache');
+    expect(await toolNames({ name: 'ops', admin: true })).toContain('purge-cache');
+    expect(await toolNames({ name: 'alice' })).not.toContain('inspect-cache');
+    expect(await toolNames({})).not.toContain('purge-cache');
+
+    await expect((await connect({ name: 'alice' })).callTool({ name: 'purge-cache', arguments: {} }))
+      .rejects.toThrow('Unknown tool: purge-cache');
+  });
+
+  it('counts calls to tools it does not offer as unknown', async () => {
+    const client = await connect({ name: 'alice' });
+    await expect(client.callTool({ name: 'made-up-1', arguments: {} })).rejects.toThrow('Unknown tool: made-up-1');
+    await expect(client.callTool({ name: 'inspect-cache', arguments: {} })).rejects.toThrow('Unknown tool: inspect-cache');
+    await callText(client, 'stats');
+
+    const { tools } = context.metrics.getSnapshot();
+    expect(Object.keys(tools).sort()).toEqual(['stats', 'unknown']);
+    expect(tools.unknown.calls).toBe(2);
+  });
+
+  it('scopes conversation sessions to the client', async () => {
+    const alice = await connect({ name: 'alice' });
+    const bob = await connect({ name: 'bob' });
+    await callText(alice, 'documentation', { request: 'How do I list users?', sessionId: 'team' });
+
+    expect(JSON.parse(await callText(alice, 'list-sessions')).map((session: { sessionId: string }) => session.sessionId)).toEqual(['team']);
+    expect(JSON.parse(await callText(bob, 'list-sessions'))).toEqual([]);
+    await expect(bob.callTool({ name: 'get-session', arguments: { sessionId: 'team' } })).rejects.toThrow('Unknown session: team');
+    expect(await callText(bob, 'clear-session')).toBe('Deleted 0 session(s)');
+    expect(await callText(alice, 'clear-session', { sessionId: 'team' })).toBe('Deleted session team');
+  });
+
+  it('rejects prompt names without a known collection and template', async () => {
+    mkdirSync(join(dir, 'prompts', 'templates'));
+    writeFileSync(join(dir, 'prompts', 'templates', 'list.md'), '---\nname: list\ndescription: List a resource\n---\nList all users.');
+    context.close();
+    config = { ...config, collections: [{ name: 'billing', docsDir: config.docsDir!, promptsDir: config.promptsDir! }] };
+    context = createExpertContext(config);
+    const client = await connect();
+
+    expect((await client.listPrompts()).prompts.map(prompt => prompt.name)).toEqual(['billing/list']);
+    expect((await client.getPrompt({ name: 'billing/list' })).messages[0].content.text).toContain('List all users.');
+    for (const name of ['list', 'orders/list', 'billing/missing']) {
+      await expect(client.getPrompt({ name })).rejects.toThrow(`MCP error -32602: Unknown prompt: ${name}`);
+    }
+  });
+});
@@ -1,70 +1,324 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ErrorCode,
+  LoggingLevel,
+  LoggingLevelSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { ExpertService } from "./services/expertService.js";
+import { DocumentationWatcher } from "./services/docWatcher.js";
+import { ProviderConfig, SamplingProvider, createProvider } from "./services/providers/index.js";
+import { formatValidationReport } from "./services/queryValidation.js";
+import { QueryExecutor, isFailedExecution } from "./services/queryExecutor.js";
+import { CLIENT_CODE_FENCES, CLIENT_LANGUAGES } from "./services/clientCode.js";
+import { ClientQuota } from "./services/clientQuota.js";
+import { ExpertError } from "./services/errors.js";
+import { RequestQueue } from "./services/requestQueue.js";
+import { ResponseCache } from "./services/responseCache.js";
+import { PriceTable, UNKNOWN_TOOL, UsageMetrics } from "./services/metrics.js";
+import { listDocResources, parseResourceUri, readDocResource } from "./resources.js";
+import { CollectionConfig } from "./collections.js";
 import { z } from "zod";
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { addLogSink, debugLog, redactBody, withLogContext } from './logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-function debugLog(message: string) {
-  console.error(`[DEBUG] ${message}`);
-}
-
-// Validate required directories exist
-const baseDir = join(__dirname, '..');
-debugLog(`Base directory: ${baseDir}`);
+// Prompt files every collection needs, created by 'npm run setup'
+export const REQUIRED_PROMPT_FILES = ['system-prompt.txt', 'tool-metadata.txt', 'query-metadata.txt', 'service-description.txt'];
 
-const requiredDirs = ['docs', 'prompts'].map(dir => join(baseDir, dir));
-const missingDirs = requiredDirs.filter(dir => !existsSync(dir));
+const QueryArgumentsSchema = z.object({
+  request: z.string().min(1, 'Request cannot be empty'),
+  format: z.enum(['text', 'json']).default('text'),
+  sessionId: z.string().min(1).optional(),
+});
 
-if (missingDirs.length > 0) {
-  throw new Error(`Required directories are missing. Please run 'npm run setup' first.\nMissing directories: ${missingDirs.join(', ')}`);
-}
+const DocumentationArgumentsSchema = z.object({
+  request: z.string().min(1, 'Request cannot be empty'),
+  format: z.enum(['text', 'json']).default('text'),
+  sessionId: z.string().min(1).optional(),
+});
 
-// Validate required files exist
-const requiredFiles = [
-  join(baseDir, 'prompts', 'system-prompt.txt'),
-  join(baseDir, 'prompts', 'tool-metadata.txt'),
-  join(baseDir, 'prompts', 'query-metadata.txt'),
-  join(baseDir, 'prompts', 'service-description.txt')
-];
+const SessionArgumentsSchema = z.object({
+  sessionId: z.string().min(1, 'Session ID cannot be empty'),
+});
 
-const missingFiles = requiredFiles.filter(file => !existsSync(file));
+const ClearSessionArgumentsSchema = z.object({
+  sessionId: z.string().min(1).optional(),
+});
 
-if (missingFiles.length > 0) {
-  throw new Error(`Required files are missing. Please run 'npm run setup' first.\nMissing files: ${missingFiles.join(', ')}`);
-}
+const ClientCodeArgumentsSchema = z.object({
+  request: z.string().min(1, 'Request cannot be empty').optional(),
+  query: z.string().min(1, 'Query cannot be empty').optional(),
+  language: z.enum(CLIENT_LANGUAGES),
+  format: z.enum(['text', 'json']).default('text'),
+});
 
-const QueryArgumentsSchema = z.object({
-  request: z.string().min(1, 'Request cannot be empty'),
+const RunQueryArgumentsSchema = z.object({
+  query: z.string().min(1, 'Query cannot be empty'),
+  variables: z.record(z.unknown()).optional(),
+  dryRun: z.boolean().default(false),
+  request: z.string().min(1).optional(),
 });
 
-const DocumentationArgumentsSchema = z.object({
-  request: z.string().min(1, 'Request cannot be empty'),
+const PurgeCacheArgumentsSchema = z.object({
+  expiredOnly: z.boolean().optional(),
 });
 
-interface ServerConfig {
+const SESSION_ID_PROPERTY = {
+  type: "string",
+  description: "Optional session ID. Requests with the same session ID share conversation history, so follow-up requests can refer to earlier ones",
+};
+
+const FORMAT_PROPERTY = {
+  type: "string",
+  enum: ["text", "json"],
+  description: "Response format: plain text (default) or a JSON object with an explanation and citations to the documentation",
+};
+
+// Name used for the only collection when no collections are configured
+export const DEFAULT_COLLECTION = 'default';
+
+export interface ServerConfig {
+  provider?: ProviderConfig;
+  useSampling?: boolean;
   model?: string;
   maxTokens?: number;
+  temperature?: number;
   docsDir?: string;
   promptsDir?: string;
+  docsInclude?: string[];
+  docsExclude?: string[];
+  maxDocBytes?: number;
+  contextBudget?: number;
+  maxRepairAttempts?: number;
+  sessionTtlMs?: number;
+  maxSessions?: number;
+  sessionTokenBudget?: number;
+  requestTimeoutMs?: number;
+  maxRetries?: number;
+  maxConcurrentRequests?: number;
+  queueTimeoutMs?: number;
+  cacheDir?: string;
+  cacheTtlMs?: number;
+  cacheMaxEntries?: number;
+  cacheMaxBytes?: number;
+  prices?: PriceTable;
+  executeBaseUrl?: string;
+  executeAllowedHosts?: string[];
+  executeAllowWrites?: boolean;
+  executeHeaders?: Record<string, string>;
+  executeTimeoutMs?: number;
+  executeMaxResponseBytes?: number;
+  watch?: boolean;
+  collections?: CollectionConfig[];
 }
 
-export async function createServer(config?: ServerConfig) {
-  const expertService = new ExpertService({
-    model: config?.model,
-    maxTokens: config?.maxTokens,
-    docsDir: config?.docsDir,
-    promptsDir: config?.promptsDir,
+/**
+ * Creates a callback that reports a request's position in the model call
+ * queue as MCP progress notifications. Progress counts the positions moved
+ * forward, so it keeps increasing across the several model calls of one request.
+ * @param server - The server to send notifications through
+ * @param progressToken - The token from the request's `_meta`, if the client asked for progress
+ * @returns The callback, or undefined if the client did not ask for progress
+ */
+function createQueueProgressReporter(server: Server, progressToken?: string | number) {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+  let progress = 0;
+  let lastPosition: number | undefined;
+  return (position: number) => {
+    if (lastPosition !== undefined && position < lastPosition) {
+      progress += lastPosition - position;
+    }
+    lastPosition = position === 0 ? undefined : position;
+    server.notification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress,
+        message: position === 0 ? 'Sending request to the model' : `Waiting for a model call slot at queue position ${position}`,
+      },
+    }).catch((error) => {
+      debugLog(`Failed to send progress notification: ${error}`);
+    });
+  };
+}
+
+/**
+ * The expert services behind one or more MCP server connections
+ */
+export interface ExpertContext {
+  collections: Map<string, ExpertService>;
+  // Executors of the collections with an API base URL, for the run-query tool
+  executors: Map<string, QueryExecutor>;
+  collectionConfigs: CollectionConfig[];
+  namespaced: boolean;
+  responseCache?: ResponseCache;
+  metrics: UsageMetrics;
+  close: () => void;
+}
+
+/**
+ * A client connected over the HTTP transport
+ */
+export interface ServerClient {
+  // The name of the client's API key; undefined when authentication is disabled
+  name?: string;
+  // Whether the client may inspect and purge the shared response cache
+  admin?: boolean;
+  // Quota enforced on every tool call
+  quota?: ClientQuota;
+}
+
+/**
+ * Checks that a collection's directories and required prompt files exist
+ * @param collection - The collection to check
+ * @throws Error naming the missing paths
+ */
+function checkCollectionFiles(collection: CollectionConfig) {
+  const label = collection.name === DEFAULT_COLLECTION ? '' : ` for collection "${collection.name}"`;
+  const missingDirs = [collection.docsDir, collection.promptsDir].filter(dir => !existsSync(dir));
+  if (missingDirs.length > 0) {
+    throw new Error(`Required directories are missing${label}. Please run 'npm run setup' first or check the configured paths.\nMissing directories: ${missingDirs.join(', ')}`);
+  }
+
+  const missingFiles = REQUIRED_PROMPT_FILES
+    .map(file => join(collection.promptsDir, file))
+    .filter(file => !existsSync(file));
+  if (missingFiles.length > 0) {
+    throw new Error(`Required files are missing${label}. Please run 'npm run setup' first or check the configured paths.\nMissing files: ${missingFiles.join(', ')}`);
+  }
+}
+
+/**
+ * Loads the configured collections and starts watching their files.
+ * A context can be shared by several servers, e.g. one per HTTP client.
+ * @param config - Server configuration
+ * @param samplingServer - Server whose client runs completions when sampling is enabled
+ * @returns The loaded context
+ */
+export function createExpertContext(config?: ServerConfig, samplingServer?: Server): ExpertContext {
+  if (config?.useSampling && !samplingServer) {
+    throw new Error('MCP sampling is only supported with the stdio transport');
+  }
+
+  // With configured collections, every tool, resource and prompt is namespaced by collection
+  const namespaced = Boolean(config?.collections?.length);
+  // One queue limits model calls across all collections and connections
+  const requestQueue = new RequestQueue({
+    maxConcurrent: config?.maxConcurrentRequests,
+    queueTimeoutMs: config?.queueTimeoutMs,
   });
+  // Entries are keyed on the documentation and prompts, so collections can share one cache
+  const responseCache = config?.cacheDir
+    ? new ResponseCache({
+      dir: config.cacheDir,
+      ttlMs: config.cacheTtlMs,
+      maxEntries: config.cacheMaxEntries,
+      maxBytes: config.cacheMaxBytes,
+    })
+    : undefined;
+  const metrics = new UsageMetrics(config?.prices);
+  const collectionConfigs: CollectionConfig[] = namespaced
+    ? config!.collections!
+    : [{
+      name: DEFAULT_COLLECTION,
+      docsDir: config?.docsDir || join(__dirname, '..', 'docs'),
+      promptsDir: config?.promptsDir || join(__dirname, '..', 'prompts'),
+    }];
+  collectionConfigs.forEach(checkCollectionFiles);
+
+  const collections = new Map<string, ExpertService>();
+  for (const collection of collectionConfigs) {
+    debugLog(`Loading collection ${collection.name}`);
+    collections.set(collection.name, new ExpertService({
+      provider: config?.provider,
+      llmProvider: config?.useSampling
+        ? new SamplingProvider(samplingServer!, () => createProvider(config?.provider))
+        : undefined,
+      model: collection.model || config?.model,
+      maxTokens: collection.maxTokens || config?.maxTokens,
+      temperature: config?.temperature,
+      docsDir: collection.docsDir,
+      promptsDir: collection.promptsDir,
+      docsInclude: collection.docsInclude || config?.docsInclude,
+      docsExclude: collection.docsExclude || config?.docsExclude,
+      maxDocBytes: config?.maxDocBytes,
+      contextBudget: collection.contextBudget || config?.contextBudget,
+      maxRepairAttempts: config?.maxRepairAttempts,
+      sessionTtlMs: config?.sessionTtlMs,
+      maxSessions: config?.maxSessions,
+      sessionTokenBudget: config?.sessionTokenBudget,
+      requestTimeoutMs: config?.requestTimeoutMs,
+      maxRetries: config?.maxRetries,
+      requestQueue,
+      responseCache,
+      metrics,
+    }));
+  }
 
+  const executors = new Map<string, QueryExecutor>();
+  for (const collection of collectionConfigs) {
+    const baseUrl = collection.executeBaseUrl || config?.executeBaseUrl;
+    if (baseUrl) {
+      executors.set(collection.name, new QueryExecutor({
+        baseUrl,
+        allowedHosts: config?.executeAllowedHosts,
+        allowWrites: config?.executeAllowWrites,
+        headers: config?.executeHeaders,
+        timeoutMs: config?.executeTimeoutMs,
+        maxResponseBytes: config?.executeMaxResponseBytes,
+      }));
+    }
+  }
+
+  // Reload documentation and prompts when files change on disk
+  const watchers: DocumentationWatcher[] = [];
+  if (config?.watch !== false) {
+    for (const expertService of collections.values()) {
+      const watcher = new DocumentationWatcher(expertService);
+      watcher.start();
+      watchers.push(watcher);
+    }
+  }
+
+  return {
+    collections,
+    executors,
+    collectionConfigs,
+    namespaced,
+    responseCache,
+    metrics,
+    close: () => watchers.forEach((watcher) => watcher.close()),
+  };
+}
+
+/**
+ * Creates an MCP server for the expert tools, resources and prompts
+ * @param config - Server configuration
+ * @param sharedContext - Context shared with other servers; created and owned by this server if omitted
+ * @param client - The HTTP client the server is for; omitted for the stdio transport
+ * @returns The server, ready to connect to a transport
+ */
+export async function createServer(config?: ServerConfig, sharedContext?: ExpertContext, client?: ServerClient) {
   const server = new Server(
     {
       name: "expert-server",
@@ -72,111 +326,647 @@ export async function createServer(config?: ServerConfig) {
     },
     {
       capabilities: {
-        tools: {},
+        tools: {
+          listChanged: true,
+        },
+        prompts: {
+          listChanged: true,
+        },
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        logging: {},
       },
     }
   );
 
+  const context = sharedContext || createExpertContext(config, server);
+  const { collections, executors, collectionConfigs, namespaced, responseCache, metrics } = context;
+  const collectionNames = Array.from(collections.keys());
+  const quota = client?.quota;
+  // Sessions are scoped to the client's key, so clients only see their own
+  const sessionOwner = client?.name;
+  // The cache holds every client's responses, so only the local user and admin keys may manage it
+  const cacheTools = Boolean(responseCache) && (!client || Boolean(client.admin));
+
+  const CollectionArgumentSchema: z.ZodType<string | undefined> = namespaced
+    ? z.enum(collectionNames as [string, ...string[]])
+    : z.string().optional();
+  const QueryToolArgumentsSchema = QueryArgumentsSchema.extend({ collection: CollectionArgumentSchema });
+  const DocumentationToolArgumentsSchema = DocumentationArgumentsSchema.extend({ collection: CollectionArgumentSchema });
+  const SessionToolArgumentsSchema = SessionArgumentsSchema.extend({ collection: CollectionArgumentSchema });
+  const ClearSessionToolArgumentsSchema = ClearSessionArgumentsSchema.extend({ collection: CollectionArgumentSchema });
+  const RunQueryToolArgumentsSchema = RunQueryArgumentsSchema.extend({ collection: CollectionArgumentSchema });
+  const ClientCodeToolArgumentsSchema = ClientCodeArgumentsSchema.extend({ collection: CollectionArgumentSchema })
+    .refine((args) => args.request || args.query, { message: 'Either request or query is required', path: ['request'] });
+
+  /**
+   * Gets the service for a collection name from tool arguments or URIs
+   */
+  function getExpertService(collection?: string): ExpertService | undefined {
+    return collections.get(namespaced ? collection || '' : DEFAULT_COLLECTION);
+  }
+
+  /**
+   * Adds the collection argument to a tool input schema when namespaced
+   */
+  function withCollectionArgument(properties: Record<string, object>, required: string[]) {
+    if (!namespaced) {
+      return { type: "object", properties, required };
+    }
+    return {
+      type: "object",
+      properties: {
+        ...properties,
+        collection: {
+          type: "string",
+          enum: collectionNames,
+          description: "Name of the API documentation collection to use",
+        },
+      },
+      required: [...required, "collection"],
+    };
+  }
+
   // List available tools
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    // Initialize service description if not already done
-    if (!expertService.getServiceDescription()) {
-      debugLog('Initializing service description...');
-      await expertService.analyzeDocumentation();
+    // Initialize service descriptions if not already done
+    for (const [name, expertService] of collections) {
+      if (!expertService.getServiceDescription()) {
+        debugLog(`Initializing service description for ${name}...`);
+        await expertService.analyzeDocumentation();
+      }
     }
 
-    const baseDescription = expertService.getServiceDescription();
-    const toolDescription = baseDescription ? 
-      ` for ${baseDescription.toLowerCase()}` : 
-      ' using the API documentation';
+    let queryDescription: string;
+    let documentationDescription: string;
+    if (namespaced) {
+      const list = Array.from(collections.entries())
+        .map(([name, expertService]) => {
+          const description = collectionConfigs.find((collection) => collection.name === name)?.description
+            || expertService.getServiceDescription();
+          return `- ${name}${description ? `: ${description}` : ''}`;
+        })
+        .join('\n');
+      queryDescription = `Generate a query for one of these APIs, chosen with the collection argument:\n${list}`;
+      documentationDescription = `Get information about one of these APIs, chosen with the collection argument:\n${list}`;
+    } else {
+      const baseDescription = collections.get(DEFAULT_COLLECTION)!.getServiceDescription();
+      const toolDescription = baseDescription ? 
+        ` for ${baseDescription.toLowerCase()}` : 
+        ' using the API documentation';
+      queryDescription = `Generate a query${toolDescription}`;
+      documentationDescription = `Get information about${toolDescription}`;
+    }
 
     return {
       tools: [
         {
           name: "create-query",
-          description: `Generate a query${toolDescription}`,
-          inputSchema: {
-            type: "object",
-            properties: {
+          description: queryDescription,
+          inputSchema: withCollectionArgument({
+            request: {
+              type: "string",
+              description: "Natural language request for the query you want to generate",
+            },
+            format: FORMAT_PROPERTY,
+            sessionId: SESSION_ID_PROPERTY,
+          }, ["request"]),
+        },
+        {
+          name: "documentation",
+          description: documentationDescription,
+          inputSchema: withCollectionArgument({
+            request: {
+              type: "string",
+              description: "Natural language question about the API documentation",
+            },
+            format: FORMAT_PROPERTY,
+            sessionId: SESSION_ID_PROPERTY,
+          }, ["request"]),
+        },
+        {
+          name: "generate-client-code",
+          description: "Write a runnable curl, TypeScript or Python snippet for a request or an existing query, using the API's authentication and header conventions, with an explanation of its parameters",
+          inputSchema: withCollectionArgument({
+            request: {
+              type: "string",
+              description: "Natural language request; a query is generated for it first. Either request or query is required",
+            },
+            query: {
+              type: "string",
+              description: "An existing query, e.g. from create-query, to write the snippet for",
+            },
+            language: {
+              type: "string",
+              enum: [...CLIENT_LANGUAGES],
+              description: "Language of the snippet: curl, typescript (fetch) or python (requests)",
+            },
+            format: {
+              type: "string",
+              enum: ["text", "json"],
+              description: "Response format: the snippet followed by the explanation (default), or a JSON object with the code, explanation, query and whether it came from the OpenAPI document",
+            },
+          }, ["language"]),
+        },
+        {
+          name: "list-sessions",
+          description: "List active conversation sessions",
+          inputSchema: withCollectionArgument({}, []),
+        },
+        {
+          name: "get-session",
+          description: "Show the conversation history of a session",
+          inputSchema: withCollectionArgument({
+            sessionId: {
+              type: "string",
+              description: "The session ID",
+            },
+          }, ["sessionId"]),
+        },
+        {
+          name: "clear-session",
+          description: "Delete a session, or all sessions when no session ID is given",
+          inputSchema: withCollectionArgument({
+            sessionId: {
+              type: "string",
+              description: "The session ID to delete",
+            },
+          }, []),
+        },
+        ...(executors.size > 0 ? [
+          {
+            name: "run-query",
+            description: `Run a query from create-query against ${namespaced
+              ? `the API of ${Array.from(executors.keys()).join(', ')}`
+              : executors.get(DEFAULT_COLLECTION)!.getBaseUrl()} and return the response status and body. `
+              + (config?.executeAllowWrites
+                ? 'Requests can change data on the API.'
+                : 'Only GET, HEAD and OPTIONS requests and GraphQL queries are run.'),
+            inputSchema: withCollectionArgument({
+              query: {
+                type: "string",
+                description: "The HTTP request, curl command or GraphQL operation to run",
+              },
+              variables: {
+                type: "object",
+                description: "Optional GraphQL variables",
+              },
+              dryRun: {
+                type: "boolean",
+                description: "Only show the request that would be sent, without sending it",
+              },
               request: {
                 type: "string",
-                description: "Natural language request for the query you want to generate",
+                description: "Optional natural language request the query was generated for. When given, a query the API rejects is repaired and run again",
               },
-            },
-            required: ["request"],
+            }, ["query"]),
           },
-        },
+        ] : []),
         {
-          name: "documentation",
-          description: `Get information about${toolDescription}`,
+          name: "stats",
+          description: "Show tool call counts, latency, token usage, errors and estimated cost since the server started",
           inputSchema: {
             type: "object",
-            properties: {
-              request: {
-                type: "string",
-                description: "Natural language question about the API documentation",
+            properties: {},
+          },
+        },
+        ...(cacheTools ? [
+          {
+            name: "inspect-cache",
+            description: "List the cached responses with their keys, age and size",
+            inputSchema: {
+              type: "object",
+              properties: {},
+            },
+          },
+          {
+            name: "purge-cache",
+            description: "Delete cached responses",
+            inputSchema: {
+              type: "object",
+              properties: {
+                expiredOnly: {
+                  type: "boolean",
+                  description: "Only delete entries older than the cache TTL",
+                },
               },
             },
-            required: ["request"],
+          },
+        ] : []),
+      ],
+    };
+  });
+
+  // List documentation files and sections as resources
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: Array.from(collections.entries()).flatMap(([name, expertService]) =>
+        listDocResources(expertService, namespaced ? name : undefined)),
+    };
+  });
+
+  // Read a documentation file or section
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const expertService = getExpertService(parseResourceUri(uri)?.collection);
+    const contents = expertService && readDocResource(expertService, uri);
+    if (!contents) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+    return {
+      contents: [contents],
+    };
+  });
+
+  /**
+   * Splits a prompt name into its collection and template name. Names
+   * without a collection prefix resolve to no collection when namespaced.
+   */
+  function resolvePrompt(name: string): { expertService?: ExpertService; template: string } {
+    if (!namespaced) {
+      return { expertService: getExpertService(), template: name };
+    }
+    const separator = name.indexOf('/');
+    if (separator === -1) {
+      return { template: name };
+    }
+    return {
+      expertService: getExpertService(name.slice(0, separator)),
+      template: name.slice(separator + 1),
+    };
+  }
+
+  // List prompt templates from the prompts/templates directory
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: Array.from(collections.entries()).flatMap(([name, expertService]) =>
+        expertService.getPromptTemplates().map((template) => ({
+          name: namespaced ? `${name}/${template.name}` : template.name,
+          description: template.description,
+          arguments: template.arguments,
+        }))),
+    };
+  });
+
+  // Render a prompt template with documentation context
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    debugLog(`Rendering prompt ${name}`);
+    const { expertService, template: templateName } = resolvePrompt(name);
+    const template = expertService?.getPromptTemplates().find((candidate) => candidate.name === templateName);
+    if (!expertService || !template) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+    return {
+      description: template.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: expertService.renderPrompt(templateName, args || {}),
           },
         },
       ],
     };
   });
 
+  // Track resource subscriptions so clients hear about changed files
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const parsed = parseResourceUri(uri);
+    if (!parsed || !getExpertService(parsed.collection)) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+    subscriptions.add(uri);
+    debugLog(`Subscribed to ${uri}`);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    debugLog(`Unsubscribed from ${request.params.uri}`);
+    return {};
+  });
+
+  const unsubscribers: Array<() => void> = [];
+  for (const [name, expertService] of collections) {
+    const uriCollection = namespaced ? name : undefined;
+    unsubscribers.push(expertService.onDocumentationChange((change) => {
+      const changedFiles = new Set([...change.added, ...change.modified, ...change.removed]);
+      if (changedFiles.size > 0) {
+        for (const uri of subscriptions) {
+          const parsed = parseResourceUri(uri);
+          if (parsed && parsed.collection === uriCollection && changedFiles.has(parsed.file)) {
+            server.sendResourceUpdated({ uri }).catch((error) => {
+              debugLog(`Failed to send resource update for ${uri}: ${error}`);
+            });
+          }
+        }
+        server.sendResourceListChanged().catch((error) => {
+          debugLog(`Failed to send resource list change: ${error}`);
+        });
+      }
+      if (change.descriptionChanged) {
+        server.sendToolListChanged().catch((error) => {
+          debugLog(`Failed to send tool list change: ${error}`);
+        });
+      }
+      if (change.promptsChanged) {
+        server.sendPromptListChanged().catch((error) => {
+          debugLog(`Failed to send prompt list change: ${error}`);
+        });
+      }
+    }));
+  }
+
+  // Forward this connection's log messages, and messages not tied to any request, to the client
+  let clientLogLevel: LoggingLevel = 'warning';
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    clientLogLevel = request.params.level;
+    debugLog(`Client log level set to ${clientLogLevel}`);
+    return {};
+  });
+  unsubscribers.push(addLogSink((entry) => {
+    const level: LoggingLevel = entry.level === 'warn' ? 'warning' : entry.level;
+    const levels = LoggingLevelSchema.options;
+    if ((entry.owner !== undefined && entry.owner !== server) || levels.indexOf(level) < levels.indexOf(clientLogLevel)) {
+      return;
+    }
+    server.sendLoggingMessage({
+      level,
+      logger: 'expert-server',
+      data: { message: entry.message, requestId: entry.requestId, tool: entry.tool },
+    }).catch((error) => {
+      debugLog(`Failed to forward log message: ${error}`);
+    });
+  }));
+
+  server.onclose = () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    if (!sharedContext) {
+      context.close();
+    }
+  };
+
   // Handle tool execution
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const callTool = async (request: CallToolRequest, extra: RequestHandlerExtra) => {
     const startTime = Date.now();
     const { name, arguments: args } = request.params;
-    debugLog(`Received ${name} request with arguments: ${JSON.stringify(args)}`);
+    debugLog(`Received ${name} request with arguments: ${redactBody(args)}`);
+    const requestOptions = {
+      signal: extra.signal,
+      client: sessionOwner,
+      onUsage: quota ? quota.recordUsage.bind(quota) : undefined,
+      onQueuePosition: createQueueProgressReporter(server, request.params._meta?.progressToken),
+    };
+    let errorCode: string | undefined;
+    let metricsTool = name;
 
     try {
+      quota?.checkRequest();
       if (name === "create-query") {
-        const { request: queryRequest } = QueryArgumentsSchema.parse(args);
-        const query = await expertService.generateQuery(queryRequest);
+        const { request: queryRequest, collection, format, sessionId } = QueryToolArgumentsSchema.parse(args);
+        const expertService = getExpertService(collection)!;
+        const result = await expertService.generateValidatedQuery(queryRequest, { ...requestOptions, structured: format === 'json', sessionId });
+        const { query, validation, repairAttempts } = result;
         
-        if (query.startsWith('Error:')) {
-          debugLog(`Query generation failed: ${query}`);
+        if (format === 'json') {
+          const response = {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+          
+          const duration = Date.now() - startTime;
+          debugLog(`Request completed in ${duration}ms with response: ${redactBody(response)}`);
+          return response;
         }
         
-        const response = {
+        const content = [
+          {
+            type: "text",
+            text: query,
+          },
+        ];
+        if (validation) {
+          const attempts = repairAttempts ? ` after ${repairAttempts} repair attempt${repairAttempts === 1 ? '' : 's'}` : '';
+          content.push({
+            type: "text",
+            text: `${formatValidationReport(validation)}${attempts}`,
+          });
+        }
+        
+        const response = { content };
+        
+        const duration = Date.now() - startTime;
+        debugLog(`Request completed in ${duration}ms with response: ${redactBody(response)}`);
+        return response;
+      } else if (name === "documentation") {
+        const { request: docRequest, collection, format, sessionId } = DocumentationToolArgumentsSchema.parse(args);
+        const expertService = getExpertService(collection)!;
+        const response = format === 'json'
+          ? await expertService.getStructuredDocumentationResponse(docRequest, { ...requestOptions, sessionId })
+          : await expertService.getDocumentationResponse(docRequest, { ...requestOptions, sessionId });
+        
+        const result = {
           content: [
             {
               type: "text",
-              text: query,
+              text: typeof response === 'string' ? response : JSON.stringify(response, null, 2),
             },
           ],
         };
         
         const duration = Date.now() - startTime;
-        debugLog(`Request completed in ${duration}ms with response: ${JSON.stringify(response)}`);
+        debugLog(`Request completed in ${duration}ms with response: ${redactBody(result)}`);
+        return result;
+      } else if (name === "generate-client-code") {
+        const { request: codeRequest, query, language, format, collection } = ClientCodeToolArgumentsSchema.parse(args);
+        const expertService = getExpertService(collection)!;
+        const result = await expertService.generateClientCode(
+          query ? { query, request: codeRequest } : { request: codeRequest! },
+          language,
+          requestOptions
+        );
+
+        const response = {
+          content: format === 'json'
+            ? [
+              {
+                type: "text",
+                text: JSON.stringify(result, null, 2),
+              },
+            ]
+            : [
+              {
+                type: "text",
+                text: `\`\`\`${CLIENT_CODE_FENCES[language]}\n${result.code}\n\`\`\``,
+              },
+              ...(result.explanation ? [
+                {
+                  type: "text",
+                  text: result.explanation,
+                },
+              ] : []),
+            ],
+        };
+
+        const duration = Date.now() - startTime;
+        debugLog(`Request completed in ${duration}ms with response: ${redactBody(response)}`);
         return response;
-      } else if (name === "documentation") {
-        const { request: docRequest } = DocumentationArgumentsSchema.parse(args);
-        const response = await expertService.getDocumentationResponse(docRequest);
-        
-        if (response.startsWith('Error:')) {
-          debugLog(`Documentation request failed: ${response}`);
+      } else if (name === "list-sessions") {
+        const { collection } = z.object({ collection: CollectionArgumentSchema }).parse(args || {});
+        const sessions = getExpertService(collection)!.getSessionStore().list(sessionOwner).map((session) => ({
+          sessionId: session.id,
+          turns: session.turns.length / 2,
+          summarized: Boolean(session.summary),
+          createdAt: new Date(session.createdAt).toISOString(),
+          updatedAt: new Date(session.updatedAt).toISOString(),
+        }));
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(sessions, null, 2),
+            },
+          ],
+        };
+      } else if (name === "get-session") {
+        const { sessionId, collection } = SessionToolArgumentsSchema.parse(args);
+        const session = getExpertService(collection)!.getSessionStore().get(sessionId, sessionOwner);
+        if (!session) {
+          throw new Error(`Unknown session: ${sessionId}`);
         }
-        
-        const result = {
+        return {
           content: [
             {
               type: "text",
-              text: response,
+              text: JSON.stringify(session, null, 2),
             },
           ],
         };
-        
+      } else if (name === "clear-session") {
+        const { sessionId, collection } = ClearSessionToolArgumentsSchema.parse(args || {});
+        const store = getExpertService(collection)!.getSessionStore();
+        let text: string;
+        if (sessionId) {
+          text = store.delete(sessionId, sessionOwner) ? `Deleted session ${sessionId}` : `Unknown session: ${sessionId}`;
+        } else {
+          text = `Deleted ${store.clear(sessionOwner)} session(s)`;
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      } else if (name === "run-query" && executors.size > 0) {
+        const { query, variables, dryRun, request: queryRequest, collection } = RunQueryToolArgumentsSchema.parse(args);
+        const executor = executors.get(namespaced ? collection || '' : DEFAULT_COLLECTION);
+        if (!executor) {
+          throw new Error(`run-query is not configured for collection ${collection}`);
+        }
+        if (dryRun) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ dryRun: true, request: executor.redact(executor.resolve(query, variables)) }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const expertService = getExpertService(collection)!;
+        const { result, ...run } = await expertService.runQuery(executor, query, { ...requestOptions, variables, request: queryRequest });
+        const response = {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ ...run, ...result }, null, 2),
+            },
+          ],
+          isError: isFailedExecution(result),
+        };
+
         const duration = Date.now() - startTime;
-        debugLog(`Request completed in ${duration}ms with response: ${JSON.stringify(result)}`);
-        return result;
+        debugLog(`Request completed in ${duration}ms with response: ${redactBody(response)}`);
+        return response;
+      } else if (name === "stats") {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(metrics.getSnapshot(), null, 2),
+            },
+          ],
+        };
+      } else if (name === "inspect-cache" && cacheTools && responseCache) {
+        const entries = responseCache.list();
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                directory: responseCache.getDirectory(),
+                entries: entries.length,
+                bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+                responses: entries,
+              }, null, 2),
+            },
+          ],
+        };
+      } else if (name === "purge-cache" && cacheTools && responseCache) {
+        const { expiredOnly } = PurgeCacheArgumentsSchema.parse(args || {});
+        const deleted = responseCache.purge(expiredOnly);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Deleted ${deleted} cached response(s)`,
+            },
+          ],
+        };
       } else {
+        metricsTool = UNKNOWN_TOOL;
         throw new Error(`Unknown tool: ${name}`);
       }
     } catch (error) {
       const duration = Date.now() - startTime;
       debugLog(`Request failed after ${duration}ms: ${error}`);
+      errorCode = error instanceof ExpertError ? error.code
+        : error instanceof z.ZodError ? 'invalid_arguments'
+        : error instanceof McpError ? (error.data as { reason?: string } | undefined)?.reason || 'invalid_request'
+        : 'internal';
+      
+      // Failures while answering are tool results, so the calling model can see and react to them
+      if (error instanceof ExpertError) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                error: {
+                  code: error.code,
+                  message: error.message,
+                  retryable: error.retryable,
+                },
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
       
       if (error instanceof z.ZodError) {
         const message = `Invalid arguments: ${error.errors
@@ -187,8 +977,15 @@ export async function createServer(config?: ServerConfig) {
       }
       
       throw error;
+    } finally {
+      metrics.recordToolCall(metricsTool, Date.now() - startTime, errorCode);
     }
-  });
+  };
+  // Messages logged while answering carry a request ID, down to the model calls
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => withLogContext(
+    { requestId: randomBytes(4).toString('hex'), tool: request.params.name, owner: server },
+    () => callTool(request, extra)
+  ));
 
   return server;
 }
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { verifyCitations } from './citations.js';
+import { DocumentIndex } from './documentIndex.js';
+
+const documentation = new Map([
+  ['api.md', '# Users\n\nList users with GET /users.\n\n# Orders\n\nCreate orders with POST /orders.\nOrders are paid on creation.'],
+  ['notes.txt', 'Rate limits apply to every endpoint.'],
+]);
+const index = new DocumentIndex();
+index.build(documentation);
+const sections = index.getSections();
+
+describe('verifyCitations', () => {
+  it('resolves sections by title or anchor to their line range', () => {
+    expect(verifyCitations([
+      { file: 'api.md', section: 'orders' },
+      { file: 'api.md', section: 'Users' },
+    ], documentation, sections)).toEqual([
+      { file: 'api.md', section: 'Orders', startLine: 5, endLine: 8 },
+      { file: 'api.md', section: 'Users', startLine: 1, endLine: 4 },
+    ]);
+  });
+
+  it('locates quotes and accepts them with different whitespace or case', () => {
+    expect(verifyCitations([
+      { file: 'api.md', quote: 'Create orders with POST /orders.\nOrders are paid' },
+      { file: 'notes.txt', quote: 'rate  limits APPLY' },
+    ], documentation, sections)).toEqual([
+      { file: 'api.md', startLine: 7, endLine: 8 },
+      { file: 'notes.txt' },
+    ]);
+  });
+
+  it('drops citations the documentation does not support', () => {
+    expect(verifyCitations([
+      { file: 'missing.md' },
+      { file: 'api.md', section: 'Invoices' },
+      { file: 'api.md', quote: 'DELETE /users' },
+      { file: 'notes.txt', startLine: 1, endLine: 2 },
+      { file: 'api.md', startLine: 0 },
+      'api.md',
+    ], documentation, sections)).toEqual([]);
+    expect(verifyCitations({ file: 'api.md' }, documentation, sections)).toEqual([]);
+  });
+
+  it('keeps valid line ranges and removes duplicates', () => {
+    expect(verifyCitations([
+      { file: 'api.md', startLine: 3 },
+      { file: 'api.md', startLine: 3, endLine: 3 },
+      { file: 'notes.txt' },
+    ], documentation, sections)).toEqual([
+      { file: 'api.md', startLine: 3, endLine: 3 },
+      { file: 'notes.txt' },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { DocSection } from './documentIndex.js';
+
+/**
+ * Interface for a reference to the documentation supporting a response
+ */
+export interface Citation {
+  file: string;
+  section?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+/**
+ * Normalizes whitespace so quotes can be matched loosely
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Finds the line range of a quote within a file
+ */
+function locateQuote(content: string, quote: string): { startLine: number; endLine: number } | undefined {
+  const index = content.indexOf(quote);
+  if (index === -1) {
+    return undefined;
+  }
+  const startLine = content.slice(0, index).split('\n').length;
+  return { startLine, endLine: startLine + quote.split('\n').length - 1 };
+}
+
+/**
+ * Checks citations returned by the model against the loaded documentation.
+ * Citations to unknown files, sections that do not exist, line ranges
+ * outside the file or quotes that do not appear in it are dropped.
+ * @param raw - The citations from the model response
+ * @param documentation - Map of file names to file contents
+ * @param sections - The indexed documentation sections
+ * @returns The verified citations
+ */
+export function verifyCitations(raw: unknown, documentation: ReadonlyMap<string, string>, sections: DocSection[]): Citation[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const verified: Citation[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object' || typeof entry.file !== 'string') {
+      continue;
+    }
+    const content = documentation.get(entry.file);
+    if (content === undefined) {
+      continue;
+    }
+    const citation: Citation = { file: entry.file };
+
+    if (typeof entry.section === 'string' && entry.section) {
+      const wanted = normalize(entry.section);
+      const section = sections.find(candidate => candidate.file === entry.file &&
+        (normalize(candidate.title) === wanted || normalize(candidate.anchor) === wanted));
+      if (!section) {
+        continue;
+      }
+      citation.section = section.title;
+      citation.startLine = section.startLine;
+      citation.endLine = section.endLine;
+    }
+
+    if (typeof entry.quote === 'string' && entry.quote.trim()) {
+      const location = locateQuote(content, entry.quote.trim());
+      if (!location && !normalize(content).includes(normalize(entry.quote))) {
+        continue;
+      }
+      if (location) {
+        citation.startLine = location.startLine;
+        citation.endLine = location.endLine;
+      }
+    } else if (Number.isInteger(entry.startLine) && citation.startLine === undefined) {
+      const lineCount = content.split('\n').length;
+      const endLine = Number.isInteger(entry.endLine) ? entry.endLine : entry.startLine;
+      if (entry.startLine < 1 || endLine < entry.startLine || endLine > lineCount) {
+        continue;
+      }
+      citation.startLine = entry.startLine;
+      citation.endLine = endLine;
+    }
+
+    const key = JSON.stringify(citation);
+    if (!verified.some(existing => JSON.stringify(existing) === key)) {
+      verified.push(citation);
+    }
+  }
+  return verified;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ClientRequest, buildClientRequest, getEnvVariables, parseClientConventions, renderClientCode, toEnvPlaceholders } from './clientCode.js';
+import { parseHttpRequest } from './queryValidation.js';
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (...args: string[]) => (...args: unknown[]) => Promise<void>;
+
+/**
+ * Runs a TypeScript snippet (which is also valid JavaScript) with a fake
+ * fetch and environment, returning the arguments it called fetch with
+ */
+async function runTypeScriptSnippet(code: string, env: Record<string, string> = {}): Promise<[string, RequestInit | undefined]> {
+  let call: [string, RequestInit | undefined] | undefined;
+  const fetch = async (url: string, init?: RequestInit) => {
+    call = [url, init];
+    return { ok: true, text: async () => '' };
+  };
+  await new AsyncFunction('fetch', 'process', 'console', code)(fetch, { env }, { log: () => {} });
+  return call!;
+}
+
+describe('toEnvPlaceholders', () => {
+  it('turns documentation placeholders into environment variable names', () => {
+    expect(toEnvPlaceholders('Bearer <api token>')).toBe('Bearer ${API_TOKEN}');
+    expect(toEnvPlaceholders('Bearer {{accessToken}}')).toBe('Bearer ${ACCESSTOKEN}');
+  });
+});
+
+describe('parseClientConventions', () => {
+  it('reads the base URL and header lines from query metadata', () => {
+    const conventions = parseClientConventions('Base URL: https://api.example.com/v1/\n- `Authorization: Bearer <API_KEY>`\nNote: not a header');
+    expect(conventions).toEqual({ baseUrl: 'https://api.example.com/v1', headers: { Authorization: 'Bearer ${API_KEY}' } });
+  });
+});
+
+describe('buildClientRequest', () => {
+  it('resolves paths against the base URL without repeating its path', () => {
+    const conventions = { baseUrl: 'https://api.example.com/v1', headers: {} };
+    expect(buildClientRequest(parseHttpRequest('GET /users?limit=5')!, conventions).url).toBe('https://api.example.com/v1/users?limit=5');
+    expect(buildClientRequest(parseHttpRequest('GET /v1/users')!, conventions).url).toBe('https://api.example.com/v1/users');
+    expect(buildClientRequest(parseHttpRequest('GET /users')!, { headers: {} }).url).toBe('${BASE_URL}/users');
+  });
+});
+
+describe('renderClientCode', () => {
+  const request: ClientRequest = {
+    method: 'POST',
+    url: '${BASE_URL}/notes',
+    headers: { Authorization: 'Bearer ${API_TOKEN}', 'X-Note': 'it\'s "quoted" `tick` ${not-a-var}' },
+    body: 'line one\r\nline two\u2028line three\u2029 \\ end',
+  };
+
+  it('writes TypeScript strings that evaluate to the original values', async () => {
+    const code = renderClientCode('typescript', request);
+    const [url, init] = await runTypeScriptSnippet(code, { BASE_URL: 'https://api.example.com', API_TOKEN: 'secret' });
+    expect(url).toBe('https://api.example.com/notes');
+    expect(init).toEqual({
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'X-Note': request.headers['X-Note'] },
+      body: request.body,
+    });
+  });
+
+  it('lists the environment variables a snippet reads', () => {
+    expect(getEnvVariables(request)).toEqual(['BASE_URL', 'API_TOKEN']);
+    expect(renderClientCode('python', request)).toContain("os.environ['API_TOKEN']");
+    expect(renderClientCode('curl', request)).toContain('"Authorization: Bearer ${API_TOKEN}"');
+  });
+});
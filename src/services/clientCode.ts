@@ -0,0 +1,426 @@
+import { OpenApiEndpoint } from './openApiValidator.js';
+import { ParsedHttpRequest } from './queryValidation.js';
+
+/**
+ * Languages the generate-client-code tool writes snippets in
+ */
+export const CLIENT_LANGUAGES = ['curl', 'typescript', 'python'] as const;
+
+export type ClientLanguage = typeof CLIENT_LANGUAGES[number];
+
+/**
+ * How each language is described to the model
+ */
+export const CLIENT_LANGUAGE_NAMES: Record<ClientLanguage, string> = {
+  curl: 'a curl command for bash',
+  typescript: 'TypeScript using fetch',
+  python: 'Python using the requests library',
+};
+
+/**
+ * Code fence language of each snippet language
+ */
+export const CLIENT_CODE_FENCES: Record<ClientLanguage, string> = {
+  curl: 'bash',
+  typescript: 'typescript',
+  python: 'python',
+};
+
+/**
+ * Base URL and headers every request should use, as described in query-metadata.txt
+ */
+export interface ClientConventions {
+  baseUrl?: string;
+  // Values may contain `${NAME}` placeholders for environment variables
+  headers: Record<string, string>;
+}
+
+/**
+ * A request ready to be rendered as a snippet
+ */
+export interface ClientRequest {
+  method: string;
+  // May contain `${NAME}` placeholders for environment variables, e.g. `${BASE_URL}/users`
+  url: string;
+  headers: Record<string, string>;
+  // Parsed JSON, or the raw body when it is not JSON
+  body?: unknown;
+}
+
+/**
+ * A generated snippet with an explanation of its parameters
+ */
+export interface ClientCodeResult {
+  language: ClientLanguage;
+  code: string;
+  explanation: string;
+  // The query the snippet sends
+  query: string;
+  // Whether the snippet was rendered from an OpenAPI endpoint or written by the model
+  source: 'openapi' | 'model';
+  // The matched OpenAPI endpoint, e.g. `GET /users/{id}`
+  endpoint?: string;
+}
+
+// Used for the base URL when neither query-metadata.txt nor the OpenAPI document names one
+const BASE_URL_VARIABLE = 'BASE_URL';
+
+// Headers set by the HTTP client, which must not be copied into snippets
+const DROPPED_HEADERS = ['host', 'content-length', 'connection', 'transfer-encoding'];
+
+// Placeholder styles found in documentation: ${NAME}, {{name}}, {name}, <name>, $NAME and YOUR_NAME
+const PLACEHOLDER = /\$\{(\w+)\}|\{\{\s*([\w-]+)\s*\}\}|\{([\w-]+)\}|<([A-Za-z][\w -]*)>|\$([A-Za-z_]\w*)|\bYOUR_([A-Z0-9_]+)\b/g;
+
+/**
+ * Converts the placeholders in a header value or URL to `${NAME}` placeholders
+ * for environment variables
+ * @param value - The value as written in the documentation or query
+ * @returns The value with normalized placeholders
+ */
+export function toEnvPlaceholders(value: string): string {
+  return value.replace(PLACEHOLDER, (_, ...groups: Array<string | undefined>) => {
+    const name = groups.slice(0, 6).find(group => group !== undefined)!;
+    return `\${${name.trim().toUpperCase().replace(/\W+/g, '_')}}`;
+  });
+}
+
+/**
+ * Splits a value into literal text and environment variable names
+ */
+function splitPlaceholders(value: string): Array<{ text: string } | { env: string }> {
+  const parts: Array<{ text: string } | { env: string }> = [];
+  let last = 0;
+  for (const match of value.matchAll(/\$\{(\w+)\}/g)) {
+    if (match.index! > last) {
+      parts.push({ text: value.slice(last, match.index) });
+    }
+    parts.push({ env: match[1] });
+    last = match.index! + match[0].length;
+  }
+  if (last < value.length) {
+    parts.push({ text: value.slice(last) });
+  }
+  return parts;
+}
+
+/**
+ * Lists the environment variables a request reads
+ * @param request - The request
+ * @returns Variable names in order of first use
+ */
+export function getEnvVariables(request: ClientRequest): string[] {
+  const values = [request.url, ...Object.values(request.headers)];
+  return [...new Set(values.flatMap(value => [...value.matchAll(/\$\{(\w+)\}/g)].map(match => match[1])))];
+}
+
+/**
+ * Checks whether a header name is one that query-metadata.txt lines may set
+ */
+function isHeaderName(name: string): boolean {
+  return /^(authorization|accept|cookie|user-agent)$/i.test(name) || name.includes('-');
+}
+
+/**
+ * Reads the base URL and headers from query-metadata.txt. Headers are lines
+ * of the form `Name: value`, optionally in a list or inline code, where the
+ * name is Authorization, Accept, Cookie, User-Agent or contains a hyphen; the
+ * base URL is a line starting with "Base URL".
+ * @param metadata - The contents of query-metadata.txt
+ * @returns The conventions found
+ */
+export function parseClientConventions(metadata: string): ClientConventions {
+  const conventions: ClientConventions = { headers: {} };
+  for (const line of metadata.split('\n')) {
+    const baseUrl = /^[\s>*-]*base url\b[^:]*:\s*`?(https?:\/\/[^\s`]+)/i.exec(line);
+    if (baseUrl) {
+      conventions.baseUrl ??= baseUrl[1].replace(/\/$/, '');
+      continue;
+    }
+    const header = /^[\s>*-]*`?([A-Za-z][A-Za-z0-9-]*):\s*(.+?)`?\s*$/.exec(line);
+    if (header && isHeaderName(header[1]) && !DROPPED_HEADERS.includes(header[1].toLowerCase())) {
+      conventions.headers[header[1]] = toEnvPlaceholders(header[2]);
+    }
+  }
+  return conventions;
+}
+
+/**
+ * Capitalizes a lowercase header name, e.g. `content-type` to `Content-Type`
+ */
+function formatHeaderName(name: string): string {
+  return name.replace(/(^|-)([a-z])/g, (_, separator: string, letter: string) => `${separator}${letter.toUpperCase()}`);
+}
+
+/**
+ * Builds the request a snippet sends from a parsed query. Relative paths are
+ * resolved against the conventions' base URL, then the OpenAPI server URL,
+ * then a BASE_URL environment variable. Headers from the conventions replace
+ * headers of the same name in the query.
+ * @param http - The parsed query
+ * @param conventions - Base URL and headers from query-metadata.txt
+ * @param serverUrl - Server URL from the OpenAPI document
+ * @returns The request
+ */
+export function buildClientRequest(http: ParsedHttpRequest, conventions: ClientConventions, serverUrl?: string): ClientRequest {
+  const path = encodeURI(http.path);
+  let url: string;
+  if (http.origin) {
+    url = `${http.origin}${path}`;
+  } else {
+    const base = conventions.baseUrl || serverUrl;
+    if (base) {
+      // Paths from the documentation may or may not include the base URL's path
+      const { origin, pathname } = new URL(base);
+      const basePath = pathname.replace(/\/$/, '');
+      url = http.path === basePath || http.path.startsWith(`${basePath}/`) ? `${origin}${path}` : `${origin}${basePath}${path}`;
+    } else {
+      url = `\${${BASE_URL_VARIABLE}}${path}`;
+    }
+  }
+  const search = new URLSearchParams(http.query).toString();
+  if (search) {
+    url += `?${search}`;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(http.headers)) {
+    if (!DROPPED_HEADERS.includes(name)) {
+      headers[formatHeaderName(name)] = toEnvPlaceholders(value);
+    }
+  }
+  for (const [name, value] of Object.entries(conventions.headers)) {
+    for (const existing of Object.keys(headers)) {
+      if (existing.toLowerCase() === name.toLowerCase()) {
+        delete headers[existing];
+      }
+    }
+    headers[name] = value;
+  }
+  if (http.body !== undefined && typeof http.body !== 'string' && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  return { method: http.method, url, headers, body: http.body };
+}
+
+/**
+ * Quotes a value for bash, expanding environment variable placeholders
+ */
+function shellString(value: string): string {
+  const parts = splitPlaceholders(value);
+  if (parts.every(part => 'text' in part)) {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+  return `"${parts.map(part => 'text' in part ? part.text.replace(/["\\$`]/g, '\\$&') : `\${${part.env}}`).join('')}"`;
+}
+
+/**
+ * Quotes a value for TypeScript, reading environment variable placeholders from process.env
+ */
+function typeScriptString(value: string): string {
+  const parts = splitPlaceholders(value);
+  if (parts.every(part => 'text' in part)) {
+    return JSON.stringify(value);
+  }
+  return `\`${parts.map(part => 'text' in part
+    ? JSON.stringify(part.text).slice(1, -1).replace(/`|\$\{/g, '\\$&')
+    : `\${process.env.${part.env}}`).join('')}\``;
+}
+
+/**
+ * Quotes a value for Python, reading environment variable placeholders from os.environ
+ */
+function pythonString(value: string): string {
+  const parts = splitPlaceholders(value);
+  if (parts.every(part => 'text' in part)) {
+    return JSON.stringify(value);
+  }
+  if (parts.length === 1) {
+    return `os.environ['${(parts[0] as { env: string }).env}']`;
+  }
+  return `f"${parts.map(part => 'text' in part
+    ? JSON.stringify(part.text).slice(1, -1).replace(/[{}]/g, '$&$&')
+    : `{os.environ['${part.env}']}`).join('')}"`;
+}
+
+/**
+ * Writes a JSON value as a Python literal
+ */
+function pythonLiteral(value: unknown, indent: string): string {
+  const inner = `${indent}    `;
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (typeof value === 'number' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    return `[\n${value.map(item => `${inner}${pythonLiteral(item, inner)},`).join('\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) {
+    return '{}';
+  }
+  return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${pythonLiteral(item, inner)},`).join('\n')}\n${indent}}`;
+}
+
+/**
+ * Renders a request as a curl command
+ */
+function renderCurl(request: ClientRequest): string {
+  const lines = [request.method === 'GET'
+    ? `curl ${shellString(request.url)}`
+    : request.method === 'HEAD'
+      ? `curl --head ${shellString(request.url)}`
+      : `curl -X ${request.method} ${shellString(request.url)}`];
+  for (const [name, value] of Object.entries(request.headers)) {
+    lines.push(`  -H ${shellString(`${name}: ${value}`)}`);
+  }
+  if (request.body !== undefined) {
+    const body = typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
+    lines.push(`  --data ${shellString(body)}`);
+  }
+  return lines.join(' \\\n');
+}
+
+/**
+ * Renders a request as a TypeScript fetch call
+ */
+function renderTypeScript(request: ClientRequest): string {
+  const options: string[] = [];
+  if (request.method !== 'GET') {
+    options.push(`  method: '${request.method}',`);
+  }
+  const headers = Object.entries(request.headers);
+  if (headers.length > 0) {
+    options.push('  headers: {');
+    for (const [name, value] of headers) {
+      const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+      options.push(`    ${key}: ${typeScriptString(value)},`);
+    }
+    options.push('  },');
+  }
+  if (request.body !== undefined) {
+    options.push(typeof request.body === 'string'
+      ? `  body: ${typeScriptString(request.body)},`
+      : `  body: JSON.stringify(${JSON.stringify(request.body, null, 2).replace(/\n/g, '\n  ')}),`);
+  }
+
+  const call = options.length > 0
+    ? `const response = await fetch(${typeScriptString(request.url)}, {\n${options.join('\n')}\n});`
+    : `const response = await fetch(${typeScriptString(request.url)});`;
+  return `${call}
+if (!response.ok) {
+  throw new Error(\`Request failed: \${response.status} \${response.statusText}\`);
+}
+console.log(await response.text());`;
+}
+
+/**
+ * Renders a request as a Python requests call
+ */
+function renderPython(request: ClientRequest): string {
+  const usesEnv = getEnvVariables(request).length > 0;
+  const args = [`    ${pythonString(request.url)},`];
+  const headers = Object.entries(request.headers)
+    .filter(([name]) => !(typeof request.body !== 'string' && request.body !== undefined && name.toLowerCase() === 'content-type'));
+  if (headers.length > 0) {
+    args.push(`    headers={\n${headers.map(([name, value]) => `        ${JSON.stringify(name)}: ${pythonString(value)},`).join('\n')}\n    },`);
+  }
+  if (request.body !== undefined) {
+    // requests sets the JSON content type itself
+    args.push(typeof request.body === 'string'
+      ? `    data=${pythonString(request.body)},`
+      : `    json=${pythonLiteral(request.body, '    ')},`);
+  }
+  args.push('    timeout=30,');
+
+  return `${usesEnv ? 'import os\n\n' : ''}import requests
+
+response = requests.request(
+    ${JSON.stringify(request.method)},
+${args.join('\n')}
+)
+response.raise_for_status()
+print(response.text)`;
+}
+
+/**
+ * Renders a request as a runnable snippet
+ * @param language - The snippet language
+ * @param request - The request to send
+ * @returns The snippet
+ */
+export function renderClientCode(language: ClientLanguage, request: ClientRequest): string {
+  switch (language) {
+    case 'curl':
+      return renderCurl(request);
+    case 'typescript':
+      return renderTypeScript(request);
+    case 'python':
+      return renderPython(request);
+  }
+}
+
+/**
+ * Explains the parameters of a request from its OpenAPI endpoint: the value
+ * sent for each documented parameter, the request body fields and the
+ * environment variables the snippet reads
+ * @param endpoint - The matched endpoint
+ * @param http - The parsed query
+ * @param request - The request the snippet sends
+ * @returns Markdown text
+ */
+export function explainEndpoint(endpoint: OpenApiEndpoint, http: ParsedHttpRequest, request: ClientRequest): string {
+  const lines = [`\`${endpoint.method} ${endpoint.path}\`${endpoint.summary ? `: ${endpoint.summary}` : ''} (from ${endpoint.file})`, ''];
+
+  // The query path may carry a base path in front of the template
+  const templateSegments = endpoint.path.split('/');
+  const pathSegments = http.path.replace(/\/$/, '').split('/');
+  const offset = pathSegments.length - templateSegments.length;
+  const valueOf = (parameter: OpenApiEndpoint['parameters'][number]): string | undefined => {
+    switch (parameter.in) {
+      case 'path': {
+        const index = templateSegments.indexOf(`{${parameter.name}}`);
+        return index === -1 ? undefined : pathSegments[index + offset];
+      }
+      case 'query':
+        return http.query[parameter.name];
+      case 'header':
+        return Object.entries(request.headers).find(([name]) => name.toLowerCase() === parameter.name.toLowerCase())?.[1];
+      default:
+        return undefined;
+    }
+  };
+
+  for (const parameter of endpoint.parameters) {
+    const value = valueOf(parameter);
+    const type = parameter.schema?.type ? `${parameter.schema.type}, ` : '';
+    const sent = value === undefined ? 'not set' : `\`${value}\``;
+    lines.push(`- \`${parameter.name}\` (${type}${parameter.in}, ${parameter.required ? 'required' : 'optional'}): ${sent}${parameter.description ? ` - ${parameter.description}` : ''}`);
+  }
+
+  const schema = endpoint.requestBody?.schema;
+  if (schema?.properties && typeof schema.properties === 'object') {
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+    const fields = Object.keys(schema.properties).map(name => required.includes(name) ? `\`${name}\` (required)` : `\`${name}\``);
+    lines.push(`- Request body: JSON object with ${fields.join(', ')}`);
+  } else if (endpoint.requestBody) {
+    lines.push(`- Request body: ${endpoint.requestBody.required ? 'required' : 'optional'}`);
+  }
+  if (lines.length === 2) {
+    lines.push('- No parameters');
+  }
+
+  const variables = getEnvVariables(request);
+  if (variables.length > 0) {
+    lines.push('', `Set ${variables.map(variable => `\`${variable}\``).join(', ')} in the environment before running the snippet.`);
+  }
+  return lines.join('\n');
+}
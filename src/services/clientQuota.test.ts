@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ClientQuota } from './clientQuota.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ClientQuota', () => {
+  it('limits requests per minute and allows them again once the minute passed', () => {
+    vi.useFakeTimers();
+    const quota = new ClientQuota('alice', { requestsPerMinute: 2 });
+    quota.checkRequest();
+    vi.advanceTimersByTime(20 * 1000);
+    quota.checkRequest();
+    expect(() => quota.checkRequest()).toThrow('Rate limit exceeded for alice: 2 requests per minute. Retry in 40s.');
+    vi.advanceTimersByTime(40 * 1000 + 1);
+    expect(() => quota.checkRequest()).not.toThrow();
+  });
+
+  it('rejects requests once the daily tokens are spent, until midnight UTC', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-18T23:00:00Z'));
+    const quota = new ClientQuota('alice', { dailyTokens: 100 });
+    quota.checkRequest();
+    quota.recordUsage({ input_tokens: 80, output_tokens: 20 });
+    expect(() => quota.checkRequest()).toThrow('Daily token quota exceeded for alice: 100 of 100 tokens used.');
+    vi.setSystemTime(new Date('2026-10-19T00:00:01Z'));
+    expect(() => quota.checkRequest()).not.toThrow();
+  });
+
+  it('does not enforce missing limits', () => {
+    const quota = new ClientQuota('alice');
+    quota.recordUsage({ input_tokens: 1e9, output_tokens: 1e9 });
+    for (let i = 0; i < 1000; i++) {
+      quota.checkRequest();
+    }
+  });
+});
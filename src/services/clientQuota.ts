@@ -0,0 +1,82 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ClaudeResponse } from './providers/index.js';
+import { debugLog } from '../logger.js';
+
+/**
+ * Configuration options for ClientQuota
+ */
+export interface ClientQuotaConfig {
+  requestsPerMinute?: number;
+  dailyTokens?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Tracks requests and model token usage for one client and rejects
+ * requests once its per-minute request or daily token quota is spent.
+ * Daily token usage resets at midnight UTC.
+ */
+export class ClientQuota {
+  private requestTimes: number[] = [];
+  private tokensToday = 0;
+  private day = ClientQuota.currentDay();
+
+  /**
+   * Creates a new instance of ClientQuota
+   * @param name - Client name used in error messages
+   * @param config - Quota limits; a missing limit is not enforced
+   */
+  constructor(private readonly name: string, private readonly config: ClientQuotaConfig = {}) {}
+
+  private static currentDay(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /**
+   * Records a request, throwing an MCP error if it would exceed the quota
+   */
+  checkRequest(): void {
+    const now = Date.now();
+    this.resetIfNewDay();
+    this.requestTimes = this.requestTimes.filter(time => time > now - MINUTE_MS);
+
+    const { requestsPerMinute, dailyTokens } = this.config;
+    if (requestsPerMinute !== undefined && this.requestTimes.length >= requestsPerMinute) {
+      const retryAfterSeconds = Math.ceil((this.requestTimes[0] + MINUTE_MS - now) / 1000);
+      debugLog(`Client ${this.name} exceeded ${requestsPerMinute} requests per minute`);
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Rate limit exceeded for ${this.name}: ${requestsPerMinute} requests per minute. Retry in ${retryAfterSeconds}s.`,
+        { reason: 'rate_limited', limit: requestsPerMinute, retryAfterSeconds }
+      );
+    }
+    if (dailyTokens !== undefined && this.tokensToday >= dailyTokens) {
+      debugLog(`Client ${this.name} exhausted its daily quota of ${dailyTokens} tokens`);
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Daily token quota exceeded for ${this.name}: ${this.tokensToday} of ${dailyTokens} tokens used. The quota resets at midnight UTC.`,
+        { reason: 'token_quota_exceeded', limit: dailyTokens, used: this.tokensToday }
+      );
+    }
+
+    this.requestTimes.push(now);
+  }
+
+  /**
+   * Adds the tokens reported by a model response to today's usage
+   * @param usage - The usage field of the response
+   */
+  recordUsage(usage: ClaudeResponse['usage']): void {
+    this.resetIfNewDay();
+    this.tokensToday += (usage?.input_tokens || 0) + (usage?.output_tokens || 0);
+  }
+
+  private resetIfNewDay(): void {
+    const day = ClientQuota.currentDay();
+    if (day !== this.day) {
+      this.day = day;
+      this.tokensToday = 0;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { listDocsDirectory, listDocsSubdirectories, listDocumentationFiles, matchesGlob } from './docLoader.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-docs-'));
+  for (const file of ['index.md', 'guides/users.md', 'guides/drafts/wip.md', 'specs/openapi.yaml', 'node_modules/x/readme.md', '.git/HEAD', 'logo.png']) {
+    mkdirSync(join(dir, file, '..'), { recursive: true });
+    writeFileSync(join(dir, file), file);
+  }
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('matchesGlob', () => {
+  it('matches whole paths or any path segment', () => {
+    expect(matchesGlob('guides/drafts/wip.md', ['drafts'])).toBe(true);
+    expect(matchesGlob('guides/users.md', ['guides/*.md'])).toBe(true);
+    expect(matchesGlob('guides/users.md', ['*.yaml'])).toBe(false);
+  });
+});
+
+describe('listDocsDirectory', () => {
+  it('lists files below the directory, skipping hidden files and node_modules', () => {
+    expect(listDocsDirectory(dir)).toEqual(['guides/drafts/wip.md', 'guides/users.md', 'index.md', 'logo.png', 'specs/openapi.yaml']);
+    expect(listDocumentationFiles(dir)).not.toContain('logo.png');
+  });
+
+  it('applies include and exclude patterns', () => {
+    expect(listDocsDirectory(dir, { include: ['guides/**'], exclude: ['drafts'] })).toEqual(['guides/users.md']);
+  });
+});
+
+describe('listDocsSubdirectories', () => {
+  it('lists the subdirectories that are not excluded, parents first', () => {
+    expect(listDocsSubdirectories(dir)).toEqual(['guides', 'guides/drafts', 'specs']);
+    expect(listDocsSubdirectories(dir, { exclude: ['drafts'] })).toEqual(['guides', 'specs']);
+  });
+});
@@ -0,0 +1,364 @@
+import { readFileSync, readdirSync, realpathSync, statSync } from 'fs';
+import { extname, join } from 'path';
+import { isCollection, parseDocument, visit } from 'yaml';
+
+/**
+ * Options selecting and limiting the files loaded from a docs directory
+ */
+export interface DocLoaderOptions {
+  // Glob patterns a file must match one of; all supported files when empty
+  include?: string[];
+  // Glob patterns of files and directories to skip
+  exclude?: string[];
+  maxFileBytes?: number;
+}
+
+/**
+ * Patterns always skipped: hidden files and directories, and installed packages
+ */
+export const DEFAULT_EXCLUDE = ['.*', 'node_modules'];
+
+/**
+ * Files larger than this are skipped unless another limit is configured
+ */
+export const DEFAULT_MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Replaces HTML character references with the characters they stand for
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Converts an HTML page to Markdown-like text: headings become `#` headings,
+ * list items become `-` items and preformatted blocks become code fences, so
+ * the document index can split the result like a Markdown file
+ */
+function htmlToText(html: string): string {
+  const blocks: string[] = [];
+  const stripTags = (fragment: string) => decodeEntities(fragment.replace(/<[^>]*>/g, ''));
+
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|nav|noscript|svg|template)\b[\s\S]*?<\/\1\s*>/gi, '')
+    // Preformatted text keeps its whitespace, so it is set aside until the rest is collapsed
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre\s*>/gi, (_, code: string) => {
+      blocks.push(stripTags(code).replace(/^\n+|\s+$/g, ''));
+      return `\n\u0000${blocks.length - 1}\u0000\n`;
+    })
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_, level: string, title: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${stripTags(title).replace(/\s+/g, ' ').trim()}\n\n`)
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code\s*>/gi, (_, code: string) => `\`${code}\``)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<t[dh]\b[^>]*>/gi, '| ')
+    .replace(/<\/t[dh]\s*>/gi, ' ')
+    .replace(/<\/tr\s*>/gi, '|\n')
+    .replace(/<\/?(p|div|section|article|main|header|footer|aside|ul|ol|dl|dt|dd|table|thead|tbody|blockquote|figure|hr)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => `\`\`\`\n${blocks[Number(index)]}\n\`\`\``)
+    .trim();
+}
+
+/**
+ * Converts reStructuredText section titles to Markdown headings, so the
+ * document index can split the file into sections. Title levels follow the
+ * order in which underline styles first appear, as in reStructuredText.
+ */
+function rstToText(rst: string): string {
+  const lines = rst.split('\n');
+  const styles: string[] = [];
+  const output: string[] = [];
+  const isAdornment = (line: string | undefined) => !!line && /^([=\-`:'"~^_*+#<>.])\1{2,}\s*$/.test(line);
+
+  for (let i = 0; i < lines.length; i++) {
+    const overline = isAdornment(lines[i]) && lines[i + 1]?.trim() && isAdornment(lines[i + 2]) ? lines[i] : undefined;
+    const titleIndex = overline ? i + 1 : i;
+    const title = lines[titleIndex];
+    const underline = lines[titleIndex + 1];
+    if (title?.trim() && !isAdornment(title) && isAdornment(underline) && underline.trim().length >= title.trim().length) {
+      const style = `${overline ? 'over' : ''}${underline[0]}`;
+      if (!styles.includes(style)) {
+        styles.push(style);
+      }
+      output.push(`${'#'.repeat(Math.min(styles.indexOf(style) + 1, 6))} ${title.trim()}`);
+      i = titleIndex + 1;
+      continue;
+    }
+    output.push(lines[i]);
+  }
+  return output.join('\n');
+}
+
+/**
+ * Pretty-prints JSON, leaving malformed files as they are
+ */
+function formatJson(content: string): string {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2);
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * Reformats YAML in block style with consistent indentation, keeping
+ * comments, and leaves malformed files as they are
+ */
+function formatYaml(content: string): string {
+  try {
+    const document = parseDocument(content);
+    if (document.errors.length > 0) {
+      return content;
+    }
+    visit(document, (_key, node) => {
+      if (isCollection(node)) {
+        node.flow = false;
+      }
+    });
+    return document.toString();
+  } catch {
+    return content;
+  }
+}
+
+const identity = (content: string) => content;
+
+/**
+ * Converts file content to the text the server indexes, keyed by extension
+ */
+const EXTRACTORS: Record<string, (content: string) => string> = {
+  '.md': identity,
+  '.txt': identity,
+  '.graphql': identity,
+  '.gql': identity,
+  '.rst': rstToText,
+  '.json': formatJson,
+  '.yaml': formatYaml,
+  '.yml': formatYaml,
+  '.html': htmlToText,
+  '.htm': htmlToText,
+};
+
+/**
+ * Checks whether a file in a docs directory has a supported format
+ * @param file - The file name or path relative to the docs directory
+ * @returns True for supported documentation files
+ */
+export function isDocumentationFile(file: string): boolean {
+  const name = file.split('/').pop() || '';
+  // Filter out system files and non-text files
+  return !name.startsWith('.') && extname(name).toLowerCase() in EXTRACTORS;
+}
+
+/**
+ * Converts a glob pattern to a regular expression. `**` matches any number
+ * of directories, `*` and `?` match within one path segment, and `{a,b}`
+ * matches either alternative.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        pattern += '\\{';
+        continue;
+      }
+      pattern += `(?:${glob.slice(i + 1, end).split(',').map(part => part.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')).join('|')})`;
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Checks a path against glob patterns. A pattern without a slash matches a
+ * file or directory name at any depth; a pattern with a slash matches the
+ * path relative to the docs directory. Matching a directory matches
+ * everything below it.
+ * @param file - Path relative to the docs directory, with `/` separators
+ * @param patterns - The glob patterns
+ * @returns True if any pattern matches
+ */
+export function matchesGlob(file: string, patterns: string[]): boolean {
+  const segments = file.split('/');
+  return patterns.some(glob => {
+    const normalized = glob.replace(/^\.\//, '').replace(/\/+$/, '');
+    const regex = globToRegExp(normalized);
+    return normalized.includes('/')
+      ? segments.some((_, i) => regex.test(segments.slice(0, i + 1).join('/')))
+      : segments.some(segment => regex.test(segment));
+  });
+}
+
+/**
+ * Checks whether the include and exclude patterns select a path
+ * @param file - Path relative to the docs directory, with `/` separators
+ * @param options - The include and exclude patterns
+ * @returns True if the path is included and not excluded
+ */
+export function isSelected(file: string, options?: DocLoaderOptions): boolean {
+  if (matchesGlob(file, [...DEFAULT_EXCLUDE, ...options?.exclude || []])) {
+    return false;
+  }
+  return !options?.include?.length || matchesGlob(file, options.include);
+}
+
+/**
+ * Walks a docs directory, skipping excluded paths and following symbolic
+ * links once, and reports every file and subdirectory in sorted order
+ * @param docsDir - The docs directory
+ * @param options - The exclude patterns
+ * @param onFile - Called with each file's path relative to the docs directory
+ * @param onDirectory - Called with each subdirectory's path relative to the docs directory
+ */
+function walkDocsDirectory(
+  docsDir: string,
+  options: DocLoaderOptions | undefined,
+  onFile: (file: string) => void,
+  onDirectory?: (dir: string) => void
+): void {
+  const visited = new Set<string>();
+  const exclude = [...DEFAULT_EXCLUDE, ...options?.exclude || []];
+
+  const walk = (dir: string, prefix: string) => {
+    const real = realpathSync(dir);
+    if (visited.has(real)) {
+      return;
+    }
+    visited.add(real);
+
+    const entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const file = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (matchesGlob(file, exclude)) {
+        continue;
+      }
+      const path = join(dir, entry.name);
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+      if (entry.isSymbolicLink()) {
+        try {
+          const stats = statSync(path);
+          isDirectory = stats.isDirectory();
+          isFile = stats.isFile();
+        } catch {
+          // Broken link
+          continue;
+        }
+      }
+      if (isDirectory) {
+        onDirectory?.(file);
+        walk(path, file);
+      } else if (isFile) {
+        onFile(file);
+      }
+    }
+  };
+
+  walk(docsDir, '');
+}
+
+/**
+ * Lists the files below a docs directory that the include and exclude
+ * patterns select, whatever their format. Symbolic links are followed once.
+ * @param docsDir - The docs directory
+ * @param options - The include and exclude patterns
+ * @returns Paths relative to the docs directory, with `/` separators, sorted
+ */
+export function listDocsDirectory(docsDir: string, options?: DocLoaderOptions): string[] {
+  const files: string[] = [];
+  walkDocsDirectory(docsDir, options, (file) => {
+    if (!options?.include?.length || matchesGlob(file, options.include)) {
+      files.push(file);
+    }
+  });
+  return files;
+}
+
+/**
+ * Lists the subdirectories of a docs directory that the exclude patterns
+ * do not skip. Symbolic links are followed once.
+ * @param docsDir - The docs directory
+ * @param options - The exclude patterns
+ * @returns Paths relative to the docs directory, with `/` separators, parents before children
+ */
+export function listDocsSubdirectories(docsDir: string, options?: DocLoaderOptions): string[] {
+  const dirs: string[] = [];
+  walkDocsDirectory(docsDir, options, () => {}, (dir) => dirs.push(dir));
+  return dirs;
+}
+
+/**
+ * Lists the documentation files the server loads from a docs directory
+ * @param docsDir - The docs directory
+ * @param options - The include and exclude patterns
+ * @returns Paths relative to the docs directory, with `/` separators, sorted
+ */
+export function listDocumentationFiles(docsDir: string, options?: DocLoaderOptions): string[] {
+  return listDocsDirectory(docsDir, options).filter(isDocumentationFile);
+}
+
+/**
+ * Converts the content of a documentation file to the text the server
+ * indexes: HTML to Markdown-like text, reStructuredText titles to Markdown
+ * headings, and JSON and YAML pretty-printed
+ * @param file - The file name, whose extension chooses the format
+ * @param content - The raw file content
+ * @returns The extracted text
+ */
+export function extractDocumentation(file: string, content: string): string {
+  const extractor = EXTRACTORS[extname(file).toLowerCase()] || identity;
+  return extractor(content);
+}
+
+/**
+ * Reads and extracts a documentation file
+ * @param docsDir - The docs directory
+ * @param file - Path relative to the docs directory
+ * @param maxFileBytes - Size above which the file is not read
+ * @returns The extracted text
+ * @throws Error if the file cannot be read or exceeds the size limit
+ */
+export function readDocumentationFile(docsDir: string, file: string, maxFileBytes = DEFAULT_MAX_FILE_BYTES): string {
+  const path = join(docsDir, file);
+  const { size } = statSync(path);
+  if (size > maxFileBytes) {
+    throw new Error(`${file} is ${Math.ceil(size / 1024)} KB, above the limit of ${Math.floor(maxFileBytes / 1024)} KB`);
+  }
+  return extractDocumentation(file, readFileSync(path, 'utf-8'));
+}
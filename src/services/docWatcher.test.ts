@@ -0,0 +1,84 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentationWatcher } from './docWatcher.js';
+import { DocumentationChange, ExpertService } from './expertService.js';
+import { MockProvider } from './providers/index.js';
+
+const platform = vi.hoisted(() => ({ recursiveWatch: true }));
+
+// Simulates platforms without recursive watching, such as Linux before Node 20
+vi.mock('fs', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('fs')>();
+  const watch = (dir: string, options: { recursive?: boolean }, listener: import('fs').WatchListener<string>) => {
+    if (options.recursive && !platform.recursiveWatch) {
+      throw Object.assign(new TypeError('The feature watch recursively is unavailable on the current platform'), {
+        code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM',
+      });
+    }
+    return fs.watch(dir, options, listener);
+  };
+  return { ...fs, watch, default: { ...fs, watch } };
+});
+
+let dir: string;
+let service: ExpertService;
+let watcher: DocumentationWatcher;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-watcher-'));
+  mkdirSync(join(dir, 'docs', 'guides'), { recursive: true });
+  mkdirSync(join(dir, 'prompts'));
+  writeFileSync(join(dir, 'docs', 'guides', 'users.md'), '# Users\n\nList users with GET /users.');
+  for (const file of ['system-prompt.txt', 'tool-metadata.txt', 'query-metadata.txt', 'service-description.txt']) {
+    writeFileSync(join(dir, 'prompts', file), `${file} contents`);
+  }
+  service = new ExpertService({
+    llmProvider: new MockProvider(),
+    docsDir: join(dir, 'docs'),
+    promptsDir: join(dir, 'prompts'),
+  });
+  watcher = new DocumentationWatcher(service, { debounceMs: 20 });
+});
+
+afterEach(() => {
+  watcher.close();
+  platform.recursiveWatch = true;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Waits for the next reload that changed something
+ */
+function nextChange(): Promise<DocumentationChange> {
+  return new Promise((resolve) => {
+    const unsubscribe = service.onDocumentationChange((change) => {
+      unsubscribe();
+      resolve(change);
+    });
+  });
+}
+
+describe.each([
+  ['recursively', true],
+  ['with a watcher per directory', false],
+])('DocumentationWatcher watching %s', (_mode, recursiveWatch) => {
+  it('reloads changed files in subdirectories, including ones added later', async () => {
+    platform.recursiveWatch = recursiveWatch;
+    watcher.start();
+
+    let change = nextChange();
+    writeFileSync(join(dir, 'docs', 'guides', 'users.md'), '# Users\n\nList users with GET /v2/users.');
+    expect((await change).modified).toEqual(['guides/users.md']);
+
+    change = nextChange();
+    mkdirSync(join(dir, 'docs', 'orders'));
+    writeFileSync(join(dir, 'docs', 'orders', 'create.md'), '# Orders\n\nCreate orders with POST /orders.');
+    expect((await change).added).toEqual(['orders/create.md']);
+
+    change = nextChange();
+    writeFileSync(join(dir, 'docs', 'orders', 'create.md'), '# Orders\n\nCreate orders with POST /v2/orders.');
+    expect((await change).modified).toEqual(['orders/create.md']);
+  });
+});
@@ -0,0 +1,218 @@
+import { watch, existsSync, FSWatcher } from 'fs';
+import { join, sep } from 'path';
+import { ExpertService } from './expertService.js';
+import { listDocsSubdirectories } from './docLoader.js';
+import { debugLog, warnLog } from '../logger.js';
+
+/**
+ * Configuration options for DocumentationWatcher
+ */
+export interface DocumentationWatcherConfig {
+  debounceMs?: number;
+}
+
+/**
+ * Watches the docs and prompts directories and reloads changed files
+ * into an ExpertService after a quiet period. Where recursive watching is
+ * unavailable (Linux before Node 20), every directory below the docs
+ * directory gets its own watcher, and the set is updated after each reload.
+ */
+export class DocumentationWatcher {
+  private watchers: FSWatcher[] = [];
+  // Watchers per docs subdirectory, keyed by relative path, when not watching recursively
+  private docsDirWatchers?: Map<string, FSWatcher>;
+  private changedDocs: Set<string> = new Set();
+  private promptsChanged = false;
+  private fullReload = false;
+  private timer?: NodeJS.Timeout;
+  private reloading?: Promise<void>;
+  private readonly debounceMs: number;
+
+  /**
+   * Creates a new instance of DocumentationWatcher
+   * @param expertService - The service to reload
+   * @param config - Optional configuration parameters
+   */
+  constructor(private readonly expertService: ExpertService, config?: DocumentationWatcherConfig) {
+    this.debounceMs = config?.debounceMs ?? 300;
+  }
+
+  /**
+   * Starts watching the service's docs and prompts directories
+   */
+  start(): void {
+    const { docsDir, promptsDir } = this.expertService.getDirectoryPaths();
+
+    this.watchDocs(docsDir);
+    for (const dir of [promptsDir, join(promptsDir, 'templates')]) {
+      this.watchDir(dir, () => {
+        this.promptsChanged = true;
+      });
+    }
+  }
+
+  /**
+   * Stops watching and cancels any pending reload
+   */
+  close(): void {
+    clearTimeout(this.timer);
+    for (const watcher of [...this.watchers, ...this.docsDirWatchers?.values() || []]) {
+      watcher.close();
+    }
+    this.watchers = [];
+    // Also stops a reload in progress from adding watchers
+    this.docsDirWatchers = undefined;
+  }
+
+  /**
+   * Watches the docs directory and its subdirectories, falling back to one
+   * watcher per directory if recursive watching is unavailable
+   */
+  private watchDocs(docsDir: string): void {
+    if (!existsSync(docsDir)) {
+      debugLog(`Not watching ${docsDir}: directory does not exist`);
+      return;
+    }
+    try {
+      this.watchers.push(this.createWatcher(docsDir, true, this.recordDoc('')));
+      debugLog(`Watching ${docsDir} for changes`);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        warnLog(`Failed to watch ${docsDir}, changes will not be reloaded: ${error}`);
+        return;
+      }
+    }
+    debugLog(`Recursive watching is unavailable; watching each directory below ${docsDir}`);
+    this.docsDirWatchers = new Map();
+    this.syncDocsDirWatchers();
+  }
+
+  /**
+   * Starts watching new docs subdirectories and stops watching removed ones
+   */
+  private syncDocsDirWatchers(): void {
+    if (!this.docsDirWatchers) {
+      return;
+    }
+    const { docsDir } = this.expertService.getDirectoryPaths();
+    let dirs: string[];
+    try {
+      dirs = ['', ...listDocsSubdirectories(docsDir, this.expertService.getDocLoaderOptions())];
+    } catch (error) {
+      warnLog(`Failed to list the directories below ${docsDir}: ${error}`);
+      return;
+    }
+
+    for (const [dir, watcher] of this.docsDirWatchers) {
+      if (!dirs.includes(dir)) {
+        watcher.close();
+        this.docsDirWatchers.delete(dir);
+      }
+    }
+    for (const dir of dirs) {
+      if (this.docsDirWatchers.has(dir)) {
+        continue;
+      }
+      const path = join(docsDir, dir);
+      try {
+        this.docsDirWatchers.set(dir, this.createWatcher(path, false, this.recordDoc(dir ? `${dir}/` : '')));
+        debugLog(`Watching ${path} for changes`);
+      } catch (error) {
+        warnLog(`Failed to watch ${path}, changes will not be reloaded: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Creates a callback that records a changed docs file
+   * @param prefix - Path of the watched directory relative to the docs directory, with a trailing `/`
+   */
+  private recordDoc(prefix: string): (file: string | null) => void {
+    return (file) => {
+      if (file) {
+        this.changedDocs.add(prefix + file.split(sep).join('/'));
+      } else {
+        this.fullReload = true;
+      }
+    };
+  }
+
+  /**
+   * Watches one directory without its subdirectories, recording changes and scheduling a reload
+   */
+  private watchDir(dir: string, record: (file: string | null) => void): void {
+    if (!existsSync(dir)) {
+      debugLog(`Not watching ${dir}: directory does not exist`);
+      return;
+    }
+    try {
+      this.watchers.push(this.createWatcher(dir, false, record));
+      debugLog(`Watching ${dir} for changes`);
+    } catch (error) {
+      warnLog(`Failed to watch ${dir}, changes will not be reloaded: ${error}`);
+    }
+  }
+
+  /**
+   * Creates a watcher that records changes and schedules a reload
+   * @param recursive - Whether to also watch subdirectories
+   * @throws Error if the directory cannot be watched
+   */
+  private createWatcher(dir: string, recursive: boolean, record: (file: string | null) => void): FSWatcher {
+    const watcher = watch(dir, { recursive }, (_event, file) => {
+      record(file ? file.toString() : null);
+      this.schedule();
+    });
+    watcher.on('error', (error) => {
+      debugLog(`Watcher error for ${dir}: ${error}`);
+    });
+    return watcher;
+  }
+
+  /**
+   * Restarts the debounce timer
+   */
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.flush().catch((error) => {
+        debugLog(`Reload after file change failed: ${error}`);
+      });
+    }, this.debounceMs);
+  }
+
+  /**
+   * Reloads everything recorded since the last flush, one reload at a time
+   */
+  private async flush(): Promise<void> {
+    if (this.reloading) {
+      // A reload is in progress; try again once it settles
+      await this.reloading;
+      this.schedule();
+      return;
+    }
+
+    const docs = Array.from(this.changedDocs);
+    const prompts = this.promptsChanged;
+    const full = this.fullReload;
+    this.changedDocs.clear();
+    this.promptsChanged = false;
+    this.fullReload = false;
+
+    this.reloading = (async () => {
+      if (full) {
+        await this.expertService.reloadDocumentation();
+      } else if (docs.length > 0 || prompts) {
+        await this.expertService.reloadFiles(docs, prompts);
+      }
+    })();
+    try {
+      await this.reloading;
+    } finally {
+      this.reloading = undefined;
+      // Directories may have been added or removed
+      this.syncDocsDirWatchers();
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentIndex, slugify, tokenize } from './documentIndex.js';
+
+describe('tokenize', () => {
+  it('lowercases words, drops stop words and splits camelCase and snake_case', () => {
+    expect(tokenize('How to list the userAccounts')).toEqual(['list', 'useraccounts', 'user', 'accounts']);
+    expect(tokenize('page_size')).toEqual(['page_size', 'page', 'size']);
+  });
+});
+
+describe('slugify', () => {
+  it('joins words with hyphens', () => {
+    expect(slugify('Create a User!')).toBe('create-a-user');
+    expect(slugify('***')).toBe('section');
+  });
+});
+
+describe('DocumentIndex', () => {
+  const documentation = new Map([
+    ['api.md', '# Users\n\nList users with GET /users.\n\n# Orders\n\nCreate orders with POST /orders.\n\n# Orders\n\nRefund orders.'],
+    ['notes.txt', 'Rate limits apply to every endpoint.'],
+  ]);
+
+  it('splits Markdown on headings with unique anchors and line ranges', () => {
+    const index = new DocumentIndex();
+    index.build(documentation);
+    const sections = index.getSections();
+    expect(sections.map(section => section.id)).toEqual([
+      'api.md#users',
+      'api.md#orders',
+      'api.md#orders-2',
+      'notes.txt#content',
+    ]);
+    expect(sections[0]).toMatchObject({ title: 'Users', startLine: 1, endLine: 4 });
+  });
+
+  it('ranks sections matching the query first', () => {
+    const index = new DocumentIndex();
+    index.build(documentation);
+    const results = index.search('create an order');
+    expect(results[0].section.id).toBe('api.md#orders');
+    expect(results.every(result => result.score > 0)).toBe(true);
+  });
+
+  it('returns every section when the documentation fits the budget', () => {
+    const index = new DocumentIndex();
+    index.build(documentation);
+    expect(index.select('users', 10000)).toHaveLength(4);
+  });
+
+  it('keeps selected sections within the budget, in document order', () => {
+    const index = new DocumentIndex();
+    index.build(documentation);
+    const selected = index.select('refund orders', 12);
+    expect(selected.reduce((sum, entry) => sum + entry.tokens, 0)).toBeLessThanOrEqual(12);
+    expect(selected.map(entry => entry.section.id)).toContain('api.md#orders-2');
+  });
+
+  it('splits large JSON documents by path', () => {
+    const index = new DocumentIndex({ maxSectionChars: 40 });
+    index.build(new Map([['spec.json', JSON.stringify({ info: { title: 'API' }, paths: { '/users': { get: { summary: 'List users' } } } })]]));
+    expect(index.getSections().map(section => section.anchor)).toEqual(['$.info', '$.paths["/users"].get']);
+  });
+});
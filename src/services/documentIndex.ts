@@ -0,0 +1,333 @@
+/**
+ * Interface for a searchable section of a documentation file
+ */
+export interface DocSection {
+  id: string;
+  file: string;
+  anchor: string;
+  title: string;
+  content: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+/**
+ * Interface for a section selected for a prompt
+ */
+export interface ScoredSection {
+  section: DocSection;
+  score: number;
+  tokens: number;
+}
+
+/**
+ * Configuration options for DocumentIndex
+ */
+export interface DocumentIndexConfig {
+  maxSectionChars?: number;
+  k1?: number;
+  b?: number;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'what', 'when', 'with', 'you'
+]);
+
+/**
+ * Roughly estimates the number of model tokens in a string
+ * @param text - The text to estimate
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Converts a heading into a URL-friendly anchor
+ * @param text - The heading text
+ * @returns Lowercase anchor with words joined by hyphens
+ */
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'section';
+}
+
+/**
+ * Splits text into lowercase search terms, including camelCase parts
+ * @param text - The text to tokenize
+ * @returns Array of terms
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.match(/[A-Za-z0-9_]+/g) || [];
+  for (const word of words) {
+    const lower = word.toLowerCase();
+    if (!STOP_WORDS.has(lower)) {
+      terms.push(lower);
+    }
+    const parts = word.split(/_|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const lowerPart = part.toLowerCase();
+        if (!STOP_WORDS.has(lowerPart)) {
+          terms.push(lowerPart);
+        }
+      }
+    }
+  }
+  return terms;
+}
+
+/**
+ * Splits documentation files into sections and ranks them with BM25
+ */
+export class DocumentIndex {
+  private sections: DocSection[] = [];
+  private termFrequencies: Map<string, number>[] = [];
+  private sectionLengths: number[] = [];
+  private documentFrequencies: Map<string, number> = new Map();
+  private averageLength = 0;
+  private readonly maxSectionChars: number;
+  private readonly k1: number;
+  private readonly b: number;
+
+  /**
+   * Creates a new instance of DocumentIndex
+   * @param config - Optional configuration parameters
+   */
+  constructor(config?: DocumentIndexConfig) {
+    this.maxSectionChars = config?.maxSectionChars || 4000;
+    this.k1 = config?.k1 ?? 1.2;
+    this.b = config?.b ?? 0.75;
+  }
+
+  /**
+   * Rebuilds the index from a map of file names to file contents
+   * @param documentation - The loaded documentation files
+   */
+  build(documentation: Map<string, string>): void {
+    this.sections = [];
+    for (const [file, content] of documentation) {
+      this.sections.push(...this.splitFile(file, content));
+    }
+
+    this.termFrequencies = [];
+    this.sectionLengths = [];
+    this.documentFrequencies = new Map();
+
+    for (const section of this.sections) {
+      // Titles are counted twice so heading matches outrank passing mentions
+      const terms = tokenize(`${section.title} ${section.title} ${section.content}`);
+      const frequencies = new Map<string, number>();
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+      for (const term of frequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+      this.termFrequencies.push(frequencies);
+      this.sectionLengths.push(terms.length);
+    }
+
+    const totalLength = this.sectionLengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.sections.length ? totalLength / this.sections.length : 0;
+  }
+
+  /**
+   * Gets all indexed sections in document order
+   * @returns Array of sections
+   */
+  getSections(): DocSection[] {
+    return this.sections;
+  }
+
+  /**
+   * Scores every section against a query
+   * @param query - The natural language query
+   * @returns Sections with a positive score, best first
+   */
+  search(query: string): ScoredSection[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const count = this.sections.length;
+    const results: ScoredSection[] = [];
+
+    this.sections.forEach((section, i) => {
+      const frequencies = this.termFrequencies[i];
+      const length = this.sectionLengths[i];
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const df = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        const norm = this.k1 * (1 - this.b + this.b * (length / (this.averageLength || 1)));
+        score += idf * (frequency * (this.k1 + 1)) / (frequency + norm);
+      }
+      if (score > 0) {
+        results.push({ section, score, tokens: estimateTokens(section.content) });
+      }
+    });
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Selects the best matching sections that fit within a token budget.
+   * When the whole index fits, every section is returned.
+   * @param query - The natural language query
+   * @param budget - Maximum number of estimated tokens to select
+   * @returns Selected sections in document order
+   */
+  select(query: string, budget: number): ScoredSection[] {
+    const all = this.sections.map(section => ({ section, score: 0, tokens: estimateTokens(section.content) }));
+    const total = all.reduce((sum, entry) => sum + entry.tokens, 0);
+    if (total <= budget) {
+      return all;
+    }
+
+    let ranked = this.search(query);
+    if (ranked.length === 0) {
+      ranked = all;
+    }
+
+    const selected: ScoredSection[] = [];
+    let used = 0;
+    for (const entry of ranked) {
+      if (used + entry.tokens > budget) {
+        continue;
+      }
+      selected.push(entry);
+      used += entry.tokens;
+    }
+
+    const order = new Map(this.sections.map((section, i) => [section.id, i]));
+    return selected.sort((a, b) => order.get(a.section.id)! - order.get(b.section.id)!);
+  }
+
+  /**
+   * Splits a file into sections based on its format
+   */
+  private splitFile(file: string, content: string): DocSection[] {
+    if (file.endsWith('.json')) {
+      try {
+        return this.splitJson(file, JSON.parse(content), '$');
+      } catch {
+        // Fall through to plain text splitting for malformed JSON
+      }
+    }
+    // HTML and reStructuredText are converted to Markdown headings when loaded
+    if (/\.(md|html?|rst)$/.test(file)) {
+      return this.splitMarkdown(file, content);
+    }
+    return this.chunkLines(file, file, 'content', content.split('\n'), 1);
+  }
+
+  /**
+   * Splits Markdown on headings, keeping the heading path as the title
+   */
+  private splitMarkdown(file: string, content: string): DocSection[] {
+    const lines = content.split('\n');
+    const sections: DocSection[] = [];
+    const headings: string[] = [];
+    const anchors = new Map<string, number>();
+    let start = 0;
+    let inFence = false;
+
+    const flush = (end: number) => {
+      const body = lines.slice(start, end);
+      if (body.join('').trim()) {
+        const title = headings.length ? headings.filter(Boolean).join(' > ') : file;
+        const base = headings.length ? slugify(headings.filter(Boolean).join(' ')) : 'preamble';
+        // Repeated headings get a numeric suffix so anchors stay unique
+        const seen = anchors.get(base) || 0;
+        anchors.set(base, seen + 1);
+        const anchor = seen ? `${base}-${seen + 1}` : base;
+        sections.push(...this.chunkLines(file, title, anchor, body, start + 1));
+      }
+    };
+
+    lines.forEach((line, i) => {
+      if (/^(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+      const match = !inFence && /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+      if (match) {
+        flush(i);
+        start = i;
+        const level = match[1].length;
+        headings.length = level - 1;
+        headings[level - 1] = match[2];
+      }
+    });
+    flush(lines.length);
+
+    return sections;
+  }
+
+  /**
+   * Splits JSON into sections by path, descending into values that are too large
+   */
+  private splitJson(file: string, value: unknown, path: string): DocSection[] {
+    const text = JSON.stringify(value, null, 2);
+    const isContainer = value !== null && typeof value === 'object';
+    if (text.length <= this.maxSectionChars || !isContainer) {
+      return [{ id: `${file}#${path}`, file, anchor: path, title: path, content: text }];
+    }
+
+    const sections: DocSection[] = [];
+    const entries = Array.isArray(value)
+      ? value.map((item, i) => [`${path}[${i}]`, item] as const)
+      : Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+          /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`,
+          item
+        ] as const);
+    for (const [childPath, child] of entries) {
+      sections.push(...this.splitJson(file, child, childPath));
+    }
+    return sections;
+  }
+
+  /**
+   * Groups lines into chunks no larger than the maximum section size,
+   * preferring to break on blank lines
+   */
+  private chunkLines(file: string, title: string, anchor: string, lines: string[], firstLine: number): DocSection[] {
+    const sections: DocSection[] = [];
+    let chunkStart = 0;
+    let size = 0;
+    let lastBlank = -1;
+
+    const push = (end: number) => {
+      const content = lines.slice(chunkStart, end).join('\n');
+      if (content.trim()) {
+        const startLine = firstLine + chunkStart;
+        const endLine = firstLine + end - 1;
+        sections.push({ id: '', file, anchor, title, content, startLine, endLine });
+      }
+      chunkStart = end;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      size += lines[i].length + 1;
+      if (!lines[i].trim()) {
+        lastBlank = i;
+      }
+      if (size > this.maxSectionChars && i > chunkStart) {
+        const breakAt = lastBlank > chunkStart ? lastBlank + 1 : i;
+        push(breakAt);
+        size = lines.slice(chunkStart, i + 1).reduce((sum, line) => sum + line.length + 1, 0);
+      }
+    }
+    push(lines.length);
+
+    sections.forEach((section, i) => {
+      if (sections.length > 1) {
+        section.anchor = `${anchor}-part-${i + 1}`;
+      }
+      section.id = `${file}#${section.anchor}`;
+    });
+    return sections;
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { AuthenticationError, OverloadedError, ProviderError, RateLimitError, errorFromStatus } from './errors.js';
+
+describe('errorFromStatus', () => {
+  it('maps provider statuses to typed errors', () => {
+    expect(errorFromStatus(401, 'Bad key')).toBeInstanceOf(AuthenticationError);
+    expect(errorFromStatus(403, 'Forbidden')).toBeInstanceOf(AuthenticationError);
+    expect(errorFromStatus(529, 'Overloaded')).toBeInstanceOf(OverloadedError);
+    expect(errorFromStatus(503, 'Unavailable')).toBeInstanceOf(OverloadedError);
+    expect(errorFromStatus(400, 'Bad request')).toBeInstanceOf(ProviderError);
+  });
+
+  it('reads the retry delay of rate limit errors', () => {
+    const error = errorFromStatus(429, 'Slow down', '3');
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(3000);
+    expect((errorFromStatus(429, 'Slow down', 'soon') as RateLimitError).retryAfterMs).toBeUndefined();
+  });
+
+  it('only marks transient failures as retryable', () => {
+    expect(errorFromStatus(429, 'Slow down').retryable).toBe(true);
+    expect(errorFromStatus(529, 'Overloaded').retryable).toBe(true);
+    expect(errorFromStatus(500, 'Server error').retryable).toBe(true);
+    expect(errorFromStatus(400, 'Bad request').retryable).toBe(false);
+    expect(errorFromStatus(401, 'Bad key').retryable).toBe(false);
+  });
+
+  it('keeps the code, name and cause', () => {
+    const cause = new Error('socket hang up');
+    const error = errorFromStatus(401, 'Bad key', null, cause);
+    expect(error).toMatchObject({ code: 'authentication', name: 'AuthenticationError', message: 'Bad key', cause });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Machine-readable codes for failures reported to MCP clients
+ */
+export type ExpertErrorCode =
+  | 'timeout'
+  | 'rate_limited'
+  | 'overloaded'
+  | 'authentication'
+  | 'invalid_response'
+  | 'empty_documentation'
+  | 'network'
+  | 'provider_error'
+  | 'cancelled'
+  | 'queue_timeout'
+  | 'execution_blocked'
+  | 'execution_failed';
+
+/**
+ * Base class for errors raised while answering a request
+ */
+export class ExpertError extends Error {
+  /**
+   * Creates a new instance of ExpertError
+   * @param code - Machine-readable error code
+   * @param message - Human-readable description
+   * @param retryable - Whether the request may succeed if sent again
+   * @param cause - The underlying error, if any
+   */
+  constructor(
+    readonly code: ExpertErrorCode,
+    message: string,
+    readonly retryable: boolean = false,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The model did not respond within the request timeout
+ */
+export class TimeoutError extends ExpertError {
+  constructor(timeoutMs: number) {
+    super('timeout', `Request timed out after ${timeoutMs}ms`);
+  }
+}
+
+/**
+ * The provider rejected the request because too many were sent
+ */
+export class RateLimitError extends ExpertError {
+  constructor(message: string, readonly retryAfterMs?: number, cause?: unknown) {
+    super('rate_limited', message, true, cause);
+  }
+}
+
+/**
+ * The provider is temporarily overloaded
+ */
+export class OverloadedError extends ExpertError {
+  constructor(message: string, cause?: unknown) {
+    super('overloaded', message, true, cause);
+  }
+}
+
+/**
+ * The provider rejected the configured credentials
+ */
+export class AuthenticationError extends ExpertError {
+  constructor(message: string, cause?: unknown) {
+    super('authentication', message, false, cause);
+  }
+}
+
+/**
+ * The model response was empty or could not be used
+ */
+export class InvalidResponseError extends ExpertError {
+  constructor(message: string) {
+    super('invalid_response', message);
+  }
+}
+
+/**
+ * No documentation is loaded to answer the request from
+ */
+export class EmptyDocumentationError extends ExpertError {
+  constructor(docsDir: string) {
+    super('empty_documentation', `No documentation files are loaded from ${docsDir}`);
+  }
+}
+
+/**
+ * The provider could not be reached
+ */
+export class NetworkError extends ExpertError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, true, cause);
+  }
+}
+
+/**
+ * Any other error reported by the provider
+ */
+export class ProviderError extends ExpertError {
+  constructor(message: string, readonly status?: number, cause?: unknown) {
+    super('provider_error', message, status !== undefined && status >= 500, cause);
+  }
+}
+
+/**
+ * The client cancelled the request
+ */
+export class CancelledError extends ExpertError {
+  constructor() {
+    super('cancelled', 'Request was cancelled');
+  }
+}
+
+/**
+ * The request waited too long for a free model call slot
+ */
+export class QueueTimeoutError extends ExpertError {
+  constructor(timeoutMs: number) {
+    super('queue_timeout', `Request waited more than ${timeoutMs}ms for a free model call slot`, true);
+  }
+}
+
+/**
+ * A query was not run because the execution settings do not allow it
+ */
+export class ExecutionBlockedError extends ExpertError {
+  constructor(message: string) {
+    super('execution_blocked', message);
+  }
+}
+
+/**
+ * Running a query failed before the API returned a response
+ */
+export class ExecutionError extends ExpertError {
+  constructor(message: string, retryable = true, cause?: unknown) {
+    super('execution_failed', message, retryable, cause);
+  }
+}
+
+/**
+ * Maps an HTTP error status from a provider to a typed error
+ * @param status - The HTTP status code
+ * @param message - Description of the failure
+ * @param retryAfter - Value of the Retry-After header, if any
+ * @param cause - The underlying error, if any
+ * @returns The typed error
+ */
+export function errorFromStatus(status: number, message: string, retryAfter?: string | null, cause?: unknown): ExpertError {
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, cause);
+  }
+  if (status === 429) {
+    const seconds = retryAfter ? Number(retryAfter) : NaN;
+    return new RateLimitError(message, isNaN(seconds) ? undefined : seconds * 1000, cause);
+  }
+  if (status === 529 || status === 503) {
+    return new OverloadedError(message, cause);
+  }
+  return new ProviderError(message, status, cause);
+}
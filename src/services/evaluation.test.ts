@@ -0,0 +1,100 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { EvalResult, EvalRun, diffRuns, loadEvalDataset, normalizeQuery, scoreOutput, summarizeResults } from './evaluation.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-eval-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadEvalDataset', () => {
+  it('loads YAML cases with the query tool as default', () => {
+    const file = join(dir, 'golden.yaml');
+    writeFileSync(file, 'cases:\n  - id: list-users\n    request: List users\n    expected: GET /users\n');
+    expect(loadEvalDataset(file)).toEqual([{ id: 'list-users', tool: 'query', request: 'List users', expected: 'GET /users' }]);
+  });
+
+  it('rejects duplicate ids and unknown fields', () => {
+    const file = join(dir, 'golden.json');
+    writeFileSync(file, JSON.stringify({ cases: [{ id: 'a', request: 'x' }, { id: 'a', request: 'y' }] }));
+    expect(() => loadEvalDataset(file)).toThrow('duplicate case id "a"');
+    writeFileSync(file, JSON.stringify({ cases: [{ id: 'a', request: 'x', answer: 'y' }] }));
+    expect(() => loadEvalDataset(file)).toThrow("Unrecognized key(s) in object: 'answer'");
+  });
+});
+
+describe('normalizeQuery', () => {
+  it('compares HTTP requests by parameters, headers and JSON body regardless of order', () => {
+    const a = normalizeQuery('```http\nPOST /users/?b=2&a=1\nAuthorization: Bearer one\n\n{"name":"Ann","age":3}\n```');
+    const b = normalizeQuery('POST /users?a=1&b=2\nAuthorization: Bearer two\n\n{ "age": 3, "name": "Ann" }');
+    expect(a.kind).toBe('http');
+    expect(a.normalized).toBe(b.normalized);
+  });
+
+  it('compares GraphQL by its syntax tree and SQL outside string literals', () => {
+    expect(normalizeQuery('query { users { id name } }')).toEqual(normalizeQuery('query {\n  users {\n    id\n    name\n  }\n}'));
+    expect(normalizeQuery("SELECT id  FROM users\nWHERE name = 'Ann'; -- by name").normalized).toBe("select id from users where name='Ann'");
+    expect(normalizeQuery("select * from users where name = 'ann'").normalized).not.toBe(normalizeQuery("select * from users where name = 'Ann'").normalized);
+  });
+});
+
+describe('scoreOutput', () => {
+  it('passes structurally equal outputs that contain every keyword', () => {
+    const evalCase = { id: 'a', tool: 'query' as const, request: 'List users', expected: 'GET /users?limit=10&page=1', keywords: ['limit'] };
+    expect(scoreOutput(evalCase, 'GET /users?page=1&limit=10')).toMatchObject({ exactMatch: false, structuralMatch: true, kind: 'http', passed: true });
+    expect(scoreOutput(evalCase, 'GET /users?page=2&limit=10')).toMatchObject({ structuralMatch: false, passed: false });
+  });
+
+  it('fails outputs missing a keyword', () => {
+    const score = scoreOutput({ id: 'a', tool: 'documentation', request: 'Auth?', keywords: ['Bearer', 'token'] }, 'Send a bearer header.');
+    expect(score).toMatchObject({ keywordsFound: 1, keywordsTotal: 2, missingKeywords: ['token'], passed: false });
+    expect(score.structuralMatch).toBeUndefined();
+  });
+});
+
+function result(id: string, passed: boolean, output = 'GET /users'): EvalResult {
+  return { id, tool: 'query', output, passed, structuralMatch: passed, keywordsFound: 0, keywordsTotal: 0, missingKeywords: [], durationMs: 1 };
+}
+
+function run(results: EvalResult[], prompts = 'p1'): EvalRun {
+  return {
+    dataset: 'golden.yaml',
+    startedAt: '2026-10-18T00:00:00.000Z',
+    provider: 'mock',
+    model: 'm',
+    contentHashes: { default: { docs: 'd1', prompts } },
+    summary: summarizeResults(results),
+    results,
+  };
+}
+
+describe('summarizeResults', () => {
+  it('adds up the results', () => {
+    expect(summarizeResults([result('a', true), { ...result('b', false), error: 'timeout' }])).toMatchObject({
+      cases: 2, passed: 1, errors: 1, structuralMatches: 1, expectedCases: 2,
+    });
+  });
+});
+
+describe('diffRuns', () => {
+  it('lists cases whose outcome or output changed and whether the inputs changed', () => {
+    const previous = run([result('a', true), result('b', false), result('c', true)]);
+    const current = run([result('a', false), result('b', true, 'GET /v2/users'), result('d', true)], 'p2');
+    expect(diffRuns(previous, current)).toEqual({
+      newlyPassing: ['b'],
+      newlyFailing: ['a'],
+      changedOutput: ['b'],
+      added: ['d'],
+      removed: ['c'],
+      promptsChanged: true,
+      docsChanged: false,
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { readFileSync } from 'fs';
+import { parse as parseGraphQL, print as printGraphQL } from 'graphql';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { parseHttpRequest, stripCodeFence } from './queryValidation.js';
+
+const EvalCaseSchema = z.object({
+  id: z.string().min(1),
+  tool: z.enum(['query', 'documentation']).default('query'),
+  request: z.string().min(1),
+  expected: z.string().optional(),
+  keywords: z.array(z.string().min(1)).optional(),
+  collection: z.string().optional(),
+}).strict();
+
+const EvalDatasetSchema = z.object({
+  cases: z.array(EvalCaseSchema).min(1, 'At least one case is required'),
+}).strict();
+
+/**
+ * One request of the golden dataset with its expected output
+ */
+export type EvalCase = z.infer<typeof EvalCaseSchema>;
+
+/**
+ * Kinds of query recognized for structural comparison
+ */
+export type QueryKind = 'http' | 'graphql' | 'sql' | 'text';
+
+/**
+ * Scores of one output against its case
+ */
+export interface CaseScore {
+  // Undefined when the case has no expected output
+  exactMatch?: boolean;
+  structuralMatch?: boolean;
+  kind?: QueryKind;
+  keywordsFound: number;
+  keywordsTotal: number;
+  missingKeywords: string[];
+  passed: boolean;
+}
+
+/**
+ * Result of running one case
+ */
+export interface EvalResult extends CaseScore {
+  id: string;
+  tool: EvalCase['tool'];
+  output?: string;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Totals over all cases of a run
+ */
+export interface EvalSummary {
+  cases: number;
+  passed: number;
+  errors: number;
+  exactMatches: number;
+  structuralMatches: number;
+  // Cases with an expected output
+  expectedCases: number;
+  keywordsFound: number;
+  keywordsTotal: number;
+}
+
+/**
+ * A complete evaluation run, as written to the results file
+ */
+export interface EvalRun {
+  dataset: string;
+  startedAt: string;
+  provider: string;
+  model: string;
+  // Hashes of the documentation and prompts the run used, keyed by collection
+  contentHashes: Record<string, { docs: string; prompts: string }>;
+  summary: EvalSummary;
+  results: EvalResult[];
+}
+
+/**
+ * Differences between two runs of the same dataset
+ */
+export interface EvalDiff {
+  newlyPassing: string[];
+  newlyFailing: string[];
+  changedOutput: string[];
+  added: string[];
+  removed: string[];
+  promptsChanged: boolean;
+  docsChanged: boolean;
+}
+
+/**
+ * Loads a golden dataset from a JSON or YAML file
+ * @param path - Path to the dataset
+ * @returns The validated cases
+ * @throws Error describing an unreadable or invalid dataset
+ */
+export function loadEvalDataset(path: string): EvalCase[] {
+  let raw: unknown;
+  try {
+    const content = readFileSync(path, 'utf-8');
+    raw = /\.ya?ml$/i.test(path) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to read dataset ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = EvalDatasetSchema.safeParse(raw);
+  if (!result.success) {
+    const message = result.error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join(", ");
+    throw new Error(`Invalid dataset ${path}: ${message}`);
+  }
+
+  const seen = new Set<string>();
+  for (const evalCase of result.data.cases) {
+    if (seen.has(evalCase.id)) {
+      throw new Error(`Invalid dataset ${path}: duplicate case id "${evalCase.id}"`);
+    }
+    seen.add(evalCase.id);
+  }
+  return result.data.cases;
+}
+
+/**
+ * Serializes a JSON value with sorted object keys
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Lowercases SQL outside string literals, collapses whitespace and drops
+ * comments and the trailing semicolon
+ */
+function normalizeSql(sql: string): string {
+  const withoutComments = sql.replace(/--[^\n]*/g, ' ').replace(/\/\*[\s\S]*?\*\//g, ' ');
+  return withoutComments
+    .split(/('(?:[^']|'')*')/)
+    .map((part, index) => index % 2 === 1 ? part : part.toLowerCase().replace(/\s+/g, ' ').replace(/\s*([,()=<>+*/-])\s*/g, '$1'))
+    .join('')
+    .trim()
+    .replace(/;$/, '')
+    .trim();
+}
+
+/**
+ * Normalizes a query so equivalent formatting compares equal: HTTP requests
+ * by method, path, sorted query parameters, headers and canonical JSON body;
+ * GraphQL by its printed AST; SQL by case and whitespace outside literals
+ * @param text - The query, optionally in a Markdown code fence
+ * @returns The detected kind and normalized text
+ */
+export function normalizeQuery(text: string): { kind: QueryKind; normalized: string } {
+  const source = stripCodeFence(text);
+
+  const http = parseHttpRequest(source);
+  if (http && !http.urlError) {
+    const query = Object.entries(http.query).sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}=${value}`).join('&');
+    // Credentials differ between runs, so only the presence of the header is compared
+    const headers = Object.entries(http.headers).sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}: ${key === 'authorization' || key === 'x-api-key' ? '<credential>' : value}`);
+    const path = http.path.length > 1 ? http.path.replace(/\/+$/, '') : http.path;
+    const body = http.body === undefined ? '' : typeof http.body === 'string' ? http.body.trim() : canonicalJson(http.body);
+    return { kind: 'http', normalized: [`${http.method} ${path}${query ? `?${query}` : ''}`, ...headers, body].join('\n').trim() };
+  }
+
+  if (/^(query|mutation|subscription|fragment)\b|^\{/.test(source)) {
+    try {
+      return { kind: 'graphql', normalized: printGraphQL(parseGraphQL(source)) };
+    } catch {
+      // Not valid GraphQL; compared as text below
+    }
+  }
+
+  if (/^(select|insert|update|delete|with|create|alter|drop)\b/i.test(source)) {
+    return { kind: 'sql', normalized: normalizeSql(source) };
+  }
+
+  return { kind: 'text', normalized: source.replace(/\s+/g, ' ').trim() };
+}
+
+/**
+ * Scores an output against its case. A case passes when the output matches
+ * the expected output structurally (if one is given) and contains every keyword.
+ * @param evalCase - The case
+ * @param output - The model output
+ * @returns The scores
+ */
+export function scoreOutput(evalCase: EvalCase, output: string): CaseScore {
+  const keywords = evalCase.keywords || [];
+  const lowerOutput = output.toLowerCase();
+  const missingKeywords = keywords.filter(keyword => !lowerOutput.includes(keyword.toLowerCase()));
+  const score: CaseScore = {
+    keywordsFound: keywords.length - missingKeywords.length,
+    keywordsTotal: keywords.length,
+    missingKeywords,
+    passed: missingKeywords.length === 0,
+  };
+
+  if (evalCase.expected !== undefined) {
+    const actual = normalizeQuery(output);
+    const expected = normalizeQuery(evalCase.expected);
+    score.exactMatch = stripCodeFence(output) === evalCase.expected.trim();
+    score.structuralMatch = score.exactMatch || (actual.kind === expected.kind && actual.normalized === expected.normalized);
+    score.kind = expected.kind;
+    score.passed = score.passed && score.structuralMatch;
+  }
+  return score;
+}
+
+/**
+ * Adds up the scores of a run
+ * @param results - The case results
+ * @returns The totals
+ */
+export function summarizeResults(results: EvalResult[]): EvalSummary {
+  return {
+    cases: results.length,
+    passed: results.filter(result => result.passed).length,
+    errors: results.filter(result => result.error !== undefined).length,
+    exactMatches: results.filter(result => result.exactMatch).length,
+    structuralMatches: results.filter(result => result.structuralMatch).length,
+    expectedCases: results.filter(result => result.structuralMatch !== undefined).length,
+    keywordsFound: results.reduce((sum, result) => sum + result.keywordsFound, 0),
+    keywordsTotal: results.reduce((sum, result) => sum + result.keywordsTotal, 0),
+  };
+}
+
+/**
+ * Compares a run with the previous run of the same dataset
+ * @param previous - The earlier run
+ * @param current - The new run
+ * @returns The cases whose outcome or output changed
+ */
+export function diffRuns(previous: EvalRun, current: EvalRun): EvalDiff {
+  const before = new Map(previous.results.map(result => [result.id, result]));
+  const after = new Map(current.results.map(result => [result.id, result]));
+  const common = current.results.filter(result => before.has(result.id));
+  const hashesChanged = (key: 'docs' | 'prompts') => Object.entries(current.contentHashes)
+    .some(([collection, hashes]) => previous.contentHashes[collection]?.[key] !== hashes[key]);
+
+  return {
+    newlyPassing: common.filter(result => result.passed && !before.get(result.id)!.passed).map(result => result.id),
+    newlyFailing: common.filter(result => !result.passed && before.get(result.id)!.passed).map(result => result.id),
+    changedOutput: common.filter(result => result.output !== before.get(result.id)!.output).map(result => result.id),
+    added: current.results.filter(result => !before.has(result.id)).map(result => result.id),
+    removed: previous.results.filter(result => !after.has(result.id)).map(result => result.id),
+    promptsChanged: hashesChanged('prompts'),
+    docsChanged: hashesChanged('docs'),
+  };
+}
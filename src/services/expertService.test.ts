@@ -0,0 +1,267 @@
+import { mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DocumentationChange, ExpertService } from './expertService.js';
+import { AuthenticationError, OverloadedError, QueueTimeoutError, RateLimitError } from './errors.js';
+import { ClaudeContent, ClaudeResponse, CompletionParams, LLMProvider, MockProvider } from './providers/index.js';
+import { QueryExecutor } from './queryExecutor.js';
+import { QueueOptions, RequestQueue } from './requestQueue.js';
+import { ResponseCache } from './responseCache.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-service-'));
+  mkdirSync(join(dir, 'docs'));
+  mkdirSync(join(dir, 'prompts'));
+  writeFileSync(join(dir, 'docs', 'api.md'), '# Users\n\nList users with GET /users.');
+  for (const file of ['system-prompt.txt', 'tool-metadata.txt', 'query-metadata.txt', 'service-description.txt']) {
+    writeFileSync(join(dir, 'prompts', file), `${file} contents`);
+  }
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * A request queue that counts how often tasks are queued
+ */
+class CountingQueue extends RequestQueue {
+  runs = 0;
+
+  async run<T>(task: () => Promise<T>, options?: QueueOptions): Promise<T> {
+    this.runs++;
+    return super.run(task, options);
+  }
+}
+
+/**
+ * A provider that fails with the given errors before answering
+ */
+class FailingProvider implements LLMProvider {
+  readonly name = 'failing';
+  calls = 0;
+  private readonly answer = new MockProvider([], 'Use GET /users.');
+
+  constructor(private readonly failures: Error[]) {}
+
+  async createMessage(params: CompletionParams): Promise<ClaudeResponse> {
+    const failure = this.failures[this.calls++];
+    if (failure) {
+      throw failure;
+    }
+    return this.answer.createMessage(params);
+  }
+}
+
+describe('ExpertService', () => {
+  it('retries transient provider failures and honours the retry delay of rate limits', async () => {
+    const llmProvider = new FailingProvider([new OverloadedError('Overloaded'), new RateLimitError('Slow down', 5)]);
+    const service = new ExpertService({
+      llmProvider,
+      docsDir: join(dir, 'docs'),
+      promptsDir: join(dir, 'prompts'),
+      retryBaseDelayMs: 1,
+    });
+
+    expect(await service.getDocumentationResponse('How do I list users?')).toBe('Use GET /users.');
+    expect(llmProvider.calls).toBe(3);
+  });
+
+  it('does not retry permanent failures or beyond the retry limit', async () => {
+    const rejected = new FailingProvider([new AuthenticationError('Bad key')]);
+    const service = new ExpertService({ llmProvider: rejected, docsDir: join(dir, 'docs'), promptsDir: join(dir, 'prompts') });
+    await expect(service.getDocumentationResponse('How do I list users?')).rejects.toBeInstanceOf(AuthenticationError);
+    expect(rejected.calls).toBe(1);
+
+    const overloaded = new FailingProvider(Array.from({ length: 10 }, () => new OverloadedError('Overloaded')));
+    const retrying = new ExpertService({
+      llmProvider: overloaded,
+      docsDir: join(dir, 'docs'),
+      promptsDir: join(dir, 'prompts'),
+      maxRetries: 2,
+      retryBaseDelayMs: 1,
+    });
+    await expect(retrying.getDocumentationResponse('How do I list users?')).rejects.toBeInstanceOf(OverloadedError);
+    expect(overloaded.calls).toBe(3);
+  });
+
+  it('reports added, removed and modified files when reloading and notifies listeners', async () => {
+    const service = new ExpertService({
+      llmProvider: new MockProvider(),
+      docsDir: join(dir, 'docs'),
+      promptsDir: join(dir, 'prompts'),
+    });
+    const changes: DocumentationChange[] = [];
+    service.onDocumentationChange(change => changes.push(change));
+
+    writeFileSync(join(dir, 'docs', 'api.md'), '# Users\n\nList users with GET /v2/users.');
+    writeFileSync(join(dir, 'docs', 'orders.md'), '# Orders\n\nCreate orders with POST /orders.');
+    let change = await service.reloadFiles(['api.md', 'orders.md'], false);
+    expect(change).toMatchObject({ added: ['orders.md'], removed: [], modified: ['api.md'], promptsChanged: false });
+
+    unlinkSync(join(dir, 'docs', 'orders.md'));
+    change = await service.reloadFiles(['orders.md'], false);
+    expect(change).toMatchObject({ added: [], removed: ['orders.md'], modified: [] });
+    expect(Array.from(service.getDocumentationFiles().keys())).toEqual(['api.md']);
+    expect(changes).toHaveLength(2);
+  });
+
+  it('only reports prompt changes and skips listeners when nothing changed', async () => {
+    const service = new ExpertService({
+      llmProvider: new MockProvider(),
+      docsDir: join(dir, 'docs'),
+      promptsDir: join(dir, 'prompts'),
+    });
+    const changes: DocumentationChange[] = [];
+    service.onDocumentationChange(change => changes.push(change));
+
+    expect(await service.reloadFiles([], true)).toMatchObject({ promptsChanged: false, descriptionChanged: false });
+    expect(changes).toHaveLength(0);
+
+    writeFileSync(join(dir, 'prompts', 'system-prompt.txt'), 'Answer briefly.');
+    expect(await service.reloadFiles([], true)).toMatchObject({ added: [], modified: [], promptsChanged: true });
+    expect(changes).toHaveLength(1);
+  });
+
+  it('answers repeated requests from the response cache until the documentation changes', async () => {
+    const llmProvider = new MockProvider([], 'Use GET /users.');
+    const service = new ExpertService({
+      llmProvider,
+      docsDir: join(dir, 'docs'),
+      promptsDir: join(dir, 'prompts'),
+      responseCache: new ResponseCache({ dir: join(dir, 'cache') }),
+    });
+
+    await service.getDocumentationResponse('How do I list users?');
+    const calls = llmProvider.calls.length;
+    expect(await service.getDocumentationResponse(' How do I  list users? ')).toBe('Use GET /users.');
+    expect(llmProvider.calls).toHaveLength(calls);
+
+    await service.getDocumentationResponse('How do I list users?', { sessionId: 's1' });
+    expect(llmProvider.calls).toHaveLength(calls + 1);
+
+    writeFileSync(join(dir, 'docs', 'api.md'), '# Users\n\nList users with GET /v2/users.');
+    await service.reloadFiles(['api.md'], false);
+    const reloaded = llmProvider.calls.length;
+    await service.getDocumentationResponse('How do I list users?');
+    expect(llmProvider.calls).toHaveLength(reloaded + 1);
+  });
+
+  it('reports the usage of session summaries to the request that triggered them', async () => {
+    const llmProvider = new MockProvider([], `Use GET /users. ${'More detail. '.repeat(20)}`);
+    const service = new ExpertService({
+      llmProvider,
+      docsDir: join(dir, 'docs'),
+      promptsDir: join(dir, 'prompts'),
+      sessionTokenBudget: 50,
+    });
+    const usage: number[] = [];
+    const options = { sessionId: 's1', onUsage: () => { usage.push(llmProvider.calls.length); } };
+
+    await service.getDocumentationResponse('How do I list users?', options);
+    expect(usage).toHaveLength(1);
+    await service.getDocumentationResponse('And only admins?', options);
+    expect(usage).toHaveLength(3);
+    expect(llmProvider.calls[llmProvider.calls.length - 1].max_tokens).toBeLessThanOrEqual(500);
+  });
+
+  it('sends the documentation in a cacheable system block rather than the message', async () => {
+    const llmProvider = new MockProvider([], 'Use GET /users.');
+    const service = new ExpertService({
+      llmProvider,
+      docsDir: join(dir, 'docs'),
+      promptsDir: join(dir, 'prompts'),
+    });
+
+    await service.getDocumentationResponse('How do I list users?');
+    const params = llmProvider.calls[llmProvider.calls.length - 1];
+    expect(params.system).toEqual([
+      {
+        type: 'text',
+        text: 'system-prompt.txt contents\n\nAdditional Context:\nquery-metadata.txt contents',
+        cache_control: { type: 'ephemeral' },
+      },
+      {
+        type: 'text',
+        text: expect.stringContaining('List users with GET /users.'),
+        cache_control: { type: 'ephemeral' },
+      },
+    ]);
+    expect(JSON.stringify(params.messages)).not.toContain('GET /users');
+  });
+
+  it('only caches the instructions when requests select different documentation', async () => {
+    writeFileSync(join(dir, 'docs', 'orders.md'), `# Orders\n\n${'Create orders with POST /orders. '.repeat(20)}`);
+    const llmProvider = new MockProvider([], 'Use GET /users.');
+    const service = new ExpertService({
+      llmProvider,
+      docsDir: join(dir, 'docs'),
+      promptsDir: join(dir, 'prompts'),
+      contextBudget: 50,
+    });
+
+    await service.getDocumentationResponse('How do I list users?');
+    const [instructions, documentation] = llmProvider.calls[llmProvider.calls.length - 1].system as ClaudeContent[];
+    expect(instructions.cache_control).toEqual({ type: 'ephemeral' });
+    expect(documentation.text).toContain('List users with GET /users.');
+    expect(documentation.text).not.toContain('POST /orders');
+    expect(documentation.cache_control).toBeUndefined();
+  });
+
+  it('does not queue a request again after it timed out waiting for a slot', async () => {
+    const requestQueue = new CountingQueue({ maxConcurrent: 1, queueTimeoutMs: 20 });
+    let release = () => {};
+    const busy = requestQueue.run(() => new Promise<void>(resolve => { release = resolve; }));
+    const service = new ExpertService({
+      llmProvider: new MockProvider(),
+      docsDir: join(dir, 'docs'),
+      promptsDir: join(dir, 'prompts'),
+      requestQueue,
+      retryBaseDelayMs: 1,
+    });
+
+    await expect(service.getDocumentationResponse('How do I list users?')).rejects.toBeInstanceOf(QueueTimeoutError);
+    expect(requestQueue.runs).toBe(2);
+    release();
+    await busy;
+  });
+
+  it('runs a repaired query with the caller\'s variables', async () => {
+    const bodies: { query: string; variables?: Record<string, unknown> }[] = [];
+    const api = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        bodies.push(JSON.parse(body));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(bodies.length === 1
+          ? { errors: [{ message: 'Cannot query field "user"' }] }
+          : { data: { users: [{ id: 1 }] } }));
+      });
+    });
+    await new Promise<void>(resolve => api.listen(0, '127.0.0.1', resolve));
+    try {
+      const service = new ExpertService({
+        llmProvider: new MockProvider([], 'query Users($limit: Int) { users(limit: $limit) { id } }'),
+        docsDir: join(dir, 'docs'),
+        promptsDir: join(dir, 'prompts'),
+      });
+      const executor = new QueryExecutor({ baseUrl: `http://127.0.0.1:${(api.address() as AddressInfo).port}/graphql` });
+
+      const run = await service.runQuery(executor, 'query Users($limit: Int) { user(limit: $limit) { id } }', {
+        request: 'List the first two users',
+        variables: { limit: 2 },
+      });
+      expect(run.repairAttempts).toBe(1);
+      expect(run.result.status).toBe(200);
+      expect(bodies.map(body => body.variables)).toEqual([{ limit: 2 }, { limit: 2 }]);
+    } finally {
+      await new Promise(resolve => api.close(resolve));
+    }
+  });
+});
@@ -1,104 +1,229 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { config } from 'dotenv';
-import { readFileSync, readdirSync } from 'fs';
+import { readFileSync, existsSync, statSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { DocumentIndex, DocSection, estimateTokens } from './documentIndex.js';
+import { PromptTemplate, loadPromptTemplates, renderPromptTemplate } from './promptTemplates.js';
+import { QueryValidator, ValidationReport, parseHttpRequest, stripCodeFence } from './queryValidation.js';
+import { OpenApiValidator } from './openApiValidator.js';
+import { GraphQLValidator } from './graphqlValidator.js';
+import { Citation, verifyCitations } from './citations.js';
+import { SessionStore, SummarizeOptions } from './sessionStore.js';
+import { ClaudeContent, ClaudeMessage, ClaudeResponse, CompletionParams, LLMProvider, ProviderConfig, createProvider } from './providers/index.js';
+import { CancelledError, EmptyDocumentationError, ExpertError, InvalidResponseError, ProviderError, QueueTimeoutError, RateLimitError, TimeoutError } from './errors.js';
+import { RequestQueue } from './requestQueue.js';
+import { CacheKey, ResponseCache, hashContent } from './responseCache.js';
+import { UsageMetrics } from './metrics.js';
+import { DocLoaderOptions, isDocumentationFile, isSelected, listDocumentationFiles, readDocumentationFile } from './docLoader.js';
+import { ExecutionResult, QueryExecutor, isFailedExecution } from './queryExecutor.js';
+import {
+  CLIENT_LANGUAGE_NAMES,
+  ClientCodeResult,
+  ClientLanguage,
+  buildClientRequest,
+  explainEndpoint,
+  parseClientConventions,
+  renderClientCode,
+} from './clientCode.js';
+import { debugLog, redactBody, warnLog } from '../logger.js';
 
 config();
 
-const CLAUDE_API_KEY = process.env.ANTHROPIC_API_KEY;
+/**
+ * Model used when none is configured
+ */
+export const DEFAULT_MODEL = 'claude-3-sonnet-20240229';
 
-if (!CLAUDE_API_KEY) {
-  console.error('Error: The ANTHROPIC_API_KEY environment variable is missing or not set.');
-  throw new Error('ANTHROPIC_API_KEY environment variable is required for the Expert Service to function.');
+/**
+ * Hashes loaded documentation so changes to any file can be detected
+ * @param documentation - Documentation content keyed by file name
+ * @returns Hex SHA-256 digest, independent of the order the files were loaded in
+ */
+export function hashDocumentation(documentation: ReadonlyMap<string, string>): string {
+  const docs = Array.from(documentation.entries()).sort(([a], [b]) => a.localeCompare(b));
+  return hashContent(JSON.stringify(docs));
 }
 
 /**
- * Interface for Claude message content
+ * Configuration options for ExpertService
  */
-interface ClaudeContent {
-  type: 'text' | 'image';
-  text?: string;
-  source?: {
-    type: 'base64' | 'url';
-    media_type: string;
-    data: string;
-  };
+interface ExpertServiceConfig {
+  apiKey?: string;
+  provider?: ProviderConfig;
+  llmProvider?: LLMProvider;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  docsDir?: string;
+  promptsDir?: string;
+  // Glob patterns selecting files below docsDir
+  docsInclude?: string[];
+  docsExclude?: string[];
+  maxDocBytes?: number;
+  contextBudget?: number;
+  maxRepairAttempts?: number;
+  sessionTtlMs?: number;
+  maxSessions?: number;
+  sessionTokenBudget?: number;
+  requestTimeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  requestQueue?: RequestQueue;
+  responseCache?: ResponseCache;
+  metrics?: UsageMetrics;
 }
 
 /**
- * Interface for Claude message
+ * Result of generating a query, including schema validation when available
  */
-interface ClaudeMessage {
-  role: 'user' | 'assistant';
-  content: string | Array<ClaudeContent>;
+export interface QueryResult {
+  query: string;
+  validation?: ValidationReport;
+  repairAttempts: number;
+  language?: string;
+  explanation?: string;
+  citations?: Citation[];
 }
 
 /**
- * Interface for Claude API response
+ * Structured answer to a documentation question
  */
-interface ClaudeResponse {
-  id: string;
-  type: 'message';
-  role: 'assistant';
-  model: string;
-  content: Array<ClaudeContent>;
-  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence';
-  stop_sequence?: string;
-  usage: {
-    input_tokens: number;
-    output_tokens: number;
-  };
+export interface DocumentationResult {
+  answer: string;
+  format: string;
+  explanation: string;
+  citations: Citation[];
 }
 
 /**
- * Configuration options for ExpertService
+ * Options for documentation requests
  */
-interface ExpertServiceConfig {
-  apiKey?: string;
-  model?: string;
-  maxTokens?: number;
-  docsDir?: string;
-  promptsDir?: string;
+export interface RequestOptions {
+  sessionId?: string;
+  // The authenticated client; sessions are only shared between requests of the same client
+  client?: string;
+  signal?: AbortSignal;
+  onUsage?: (usage: ClaudeResponse['usage']) => void;
+  onQueuePosition?: (position: number) => void;
+}
+
+/**
+ * Options for query generation
+ */
+export interface QueryOptions extends RequestOptions {
+  structured?: boolean;
 }
 
-// Add a debug logging function that only writes to stderr
-function debugLog(message: string) {
-  console.error(`[DEBUG] ${message}`);
+const MAX_RETRY_DELAY_MS = 30000;
+
+const CITATION_INSTRUCTIONS = `"citations": an array of objects pointing to the documentation used, each with "file" (the file name shown in the section header), "section" (the section title shown in the header) and "quote" (a short passage copied exactly from that section)`;
+
+/**
+ * Options for running a query against the API
+ */
+export interface RunQueryOptions extends RequestOptions {
+  variables?: Record<string, unknown>;
+  // The request the query was generated for; when given, failing queries are repaired and run again
+  request?: string;
+}
+
+/**
+ * Result of running a query, after any repair attempts
+ */
+export interface QueryRunResult {
+  // The query that produced the result, which differs from the given one after a repair
+  query: string;
+  result: ExecutionResult;
+  repairAttempts: number;
+  failedAttempts: Array<{ query: string; status: number }>;
+}
+
+/**
+ * What to write client code for: a natural language request, or a query to translate
+ */
+export type ClientCodeInput = { request: string; query?: undefined } | { query: string; request?: string };
+
+/**
+ * Describes which documentation files changed during a reload
+ */
+export interface DocumentationChange {
+  added: string[];
+  removed: string[];
+  modified: string[];
+  promptsChanged: boolean;
+  descriptionChanged: boolean;
 }
 
 /**
  * Service for handling documentation queries and generation using Claude
  */
 export class ExpertService {
-  private anthropic: Anthropic;
+  private provider: LLMProvider;
   private documentation: Map<string, string>;
+  private docIndex: DocumentIndex;
   private systemPrompt: string;
   private toolMetadata: string = '';
   private queryMetadata: string = '';
   private readonly model: string;
   private readonly maxTokens: number;
+  private readonly temperature?: number;
   private readonly docsDir: string;
   private readonly promptsDir: string;
+  private readonly docLoaderOptions: DocLoaderOptions;
+  private readonly contextBudget: number;
+  private readonly maxRepairAttempts: number;
+  private readonly requestTimeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly requestQueue: RequestQueue;
+  private readonly responseCache?: ResponseCache;
+  private readonly metrics?: UsageMetrics;
+  private contentHashes?: { docs: string; prompts: string };
+  private validators: QueryValidator[] = [];
+  private sessions: SessionStore;
   private serviceDescription: string = '';
+  private promptTemplates: Map<string, PromptTemplate> = new Map();
+  private changeListeners: Array<(change: DocumentationChange) => void> = [];
 
   /**
    * Creates a new instance of ExpertService
    * @param config - Optional configuration parameters
    */
   constructor(config?: ExpertServiceConfig) {
-    this.anthropic = new Anthropic({
-      apiKey: config?.apiKey || CLAUDE_API_KEY,
+    this.provider = config?.llmProvider || createProvider({
+      ...config?.provider,
+      apiKey: config?.apiKey || config?.provider?.apiKey,
     });
     this.documentation = new Map();
-    this.model = config?.model || 'claude-3-sonnet-20240229';
+    this.model = config?.model || DEFAULT_MODEL;
     this.maxTokens = config?.maxTokens || 1500;
+    this.temperature = config?.temperature;
+    this.contextBudget = config?.contextBudget || 20000;
+    this.maxRepairAttempts = config?.maxRepairAttempts ?? 2;
+    this.requestTimeoutMs = config?.requestTimeoutMs || 30000;
+    this.maxRetries = config?.maxRetries ?? 3;
+    this.retryBaseDelayMs = config?.retryBaseDelayMs ?? 1000;
+    this.requestQueue = config?.requestQueue || new RequestQueue();
+    this.responseCache = config?.responseCache;
+    this.metrics = config?.metrics;
+    this.sessions = new SessionStore({
+      ttlMs: config?.sessionTtlMs,
+      maxSessions: config?.maxSessions,
+      maxTokens: config?.sessionTokenBudget,
+      summarize: (previousSummary, turns, options) => this.summarizeTurns(previousSummary, turns, options),
+    });
+    this.docIndex = new DocumentIndex();
     
     // Use paths relative to script location if not provided in config
     const scriptDir = dirname(fileURLToPath(import.meta.url));
     const baseDir = join(scriptDir, '..', '..');
     this.docsDir = config?.docsDir || join(baseDir, 'docs');
     this.promptsDir = config?.promptsDir || join(baseDir, 'prompts');
+    this.docLoaderOptions = {
+      include: config?.docsInclude,
+      exclude: config?.docsExclude,
+      maxFileBytes: config?.maxDocBytes,
+    };
     
     debugLog(`Using docs directory: ${this.docsDir}`);
     debugLog(`Using prompts directory: ${this.promptsDir}`);
@@ -106,18 +231,21 @@ export class ExpertService {
     // Load files synchronously
     debugLog('Loading documentation and configuration files...');
     this.loadDocumentation();
+    this.docIndex.build(this.documentation);
+    this.validators = this.createValidators();
     this.systemPrompt = this.loadSystemPrompt();
     this.toolMetadata = this.loadToolMetadata();
     this.queryMetadata = this.loadQueryMetadata();
     this.serviceDescription = this.loadServiceDescription();
+    this.promptTemplates = loadPromptTemplates(join(this.promptsDir, 'templates'));
     debugLog('Initial file loading complete');
     
     // Validate initialization
     if (!this.systemPrompt) {
-      debugLog('Warning: System prompt could not be loaded. Service may not function as expected.');
+      warnLog('System prompt could not be loaded. Service may not function as expected.');
     }
     if (this.documentation.size === 0) {
-      debugLog('Warning: No documentation files were loaded. Service may not function as expected.');
+      warnLog('No documentation files were loaded. Service may not function as expected.');
     }
   }
 
@@ -136,16 +264,11 @@ export class ExpertService {
   }
 
   /**
-   * Loads all documentation files from the docs directory
+   * Loads all selected documentation files below the docs directory
    */
   private loadDocumentation(): void {
     try {
-      const files = readdirSync(this.docsDir)
-        .filter(file => {
-          // Filter out system files and non-text files
-          return !file.startsWith('.') && 
-                 (file.endsWith('.txt') || file.endsWith('.md') || file.endsWith('.json'));
-        });
+      const files = listDocumentationFiles(this.docsDir, this.docLoaderOptions);
 
       if (files.length === 0) {
         debugLog(`No valid documentation files found in ${this.docsDir}`);
@@ -153,20 +276,34 @@ export class ExpertService {
       }
 
       for (const file of files) {
-        try {
-          const filePath = join(this.docsDir, file);
-          const content = readFileSync(filePath, 'utf-8');
-          this.documentation.set(file, content);
-          debugLog(`Successfully loaded documentation from ${file}`);
-        } catch (error) {
-          debugLog(`Failed to load documentation file ${file}: ${error}`);
-        }
+        this.loadDocumentationFile(file);
       }
     } catch (error) {
       debugLog(`Failed to read docs directory ${this.docsDir}: ${error}`);
     }
   }
 
+  /**
+   * Loads a single documentation file, removing it from the map if it no
+   * longer exists or is no longer selected
+   * @param file - The path relative to the docs directory, with `/` separators
+   */
+  private loadDocumentationFile(file: string): void {
+    const filePath = join(this.docsDir, file);
+    if (!isDocumentationFile(file) || !isSelected(file, this.docLoaderOptions) || !existsSync(filePath)) {
+      this.documentation.delete(file);
+      return;
+    }
+    try {
+      const content = readDocumentationFile(this.docsDir, file, this.docLoaderOptions.maxFileBytes);
+      this.documentation.set(file, content);
+      debugLog(`Successfully loaded documentation from ${file}`);
+    } catch (error) {
+      warnLog(`Skipped documentation file ${file}: ${error instanceof Error ? error.message : error}`);
+      this.documentation.delete(file);
+    }
+  }
+
   /**
    * Loads tool description metadata from file
    */
@@ -208,7 +345,7 @@ export class ExpertService {
       debugLog('Successfully loaded service description');
       return description;
     } catch (error) {
-      debugLog('No service description found - please run setup script first');
+      debugLog("No service description found - run 'expert-server describe' to generate one");
       return '';
     }
   }
@@ -225,147 +362,776 @@ export class ExpertService {
     return Array.from(this.documentation.values()).join('\n\n');
   }
 
+  /**
+   * Creates query validators for the schemas found in the loaded documentation
+   * @returns Array of validators
+   */
+  private createValidators(): QueryValidator[] {
+    const validators: QueryValidator[] = [];
+    const openApi = OpenApiValidator.fromDocumentation(this.documentation);
+    if (openApi) {
+      debugLog(`Loaded OpenAPI model with ${openApi.getEndpoints().length} endpoints`);
+      validators.push(openApi);
+    }
+    const graphql = GraphQLValidator.fromDocumentation(this.documentation);
+    if (graphql) {
+      debugLog('Loaded GraphQL schema for query validation');
+      validators.push(graphql);
+    }
+    return validators;
+  }
+
+  /**
+   * Validates a generated query with the first validator that understands it
+   * @param query - The generated query
+   * @returns The validation report, or undefined if no validator applies
+   */
+  validateQuery(query: string): ValidationReport | undefined {
+    for (const validator of this.validators) {
+      const report = validator.validate(query);
+      if (report) {
+        return report;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets the loaded documentation files
+   * @returns Map of file names to file contents
+   */
+  getDocumentationFiles(): ReadonlyMap<string, string> {
+    return this.documentation;
+  }
+
+  /**
+   * Gets the indexed sections of all loaded documentation files
+   * @returns Array of sections in document order
+   */
+  getDocumentationSections(): DocSection[] {
+    return this.docIndex.getSections();
+  }
+
+  /**
+   * Registers a listener that is called when a reload changes documentation files
+   * @param listener - Callback receiving the changed file names
+   * @returns A function that removes the listener
+   */
+  onDocumentationChange(listener: (change: DocumentationChange) => void): () => void {
+    this.changeListeners.push(listener);
+    return () => {
+      this.changeListeners = this.changeListeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Selects the documentation sections most relevant to a request,
+   * staying within the configured context budget
+   * @param request - The natural language request
+   * @returns Combined text of the selected sections
+   */
+  getRelevantDocumentation(request: string): string {
+    if (this.documentation.size === 0) {
+      debugLog('No documentation files are currently loaded');
+      return '';
+    }
+
+    const selected = this.docIndex.select(request, this.contextBudget);
+    const used = selected.reduce((sum, entry) => sum + entry.tokens, 0);
+    debugLog(`Selected ${selected.length} of ${this.docIndex.getSections().length} documentation sections (~${used}/${this.contextBudget} tokens)`);
+    for (const { section, score, tokens } of selected) {
+      debugLog(`  ${section.id} "${section.title}" score=${score.toFixed(2)} tokens=${tokens}`);
+    }
+
+    return selected
+      .map(({ section }) => {
+        const lines = section.startLine ? ` (lines ${section.startLine}-${section.endLine})` : '';
+        return `--- ${section.file}: ${section.title}${lines} ---\n${section.content}`;
+      })
+      .join('\n\n');
+  }
+
+  /**
+   * Gets the prompt templates loaded from the templates directory
+   * @returns Array of prompt templates
+   */
+  getPromptTemplates(): PromptTemplate[] {
+    return Array.from(this.promptTemplates.values());
+  }
+
+  /**
+   * Renders a prompt template with its arguments, prefixed by the relevant
+   * documentation and query metadata
+   * @param name - The template name
+   * @param args - Argument values by name
+   * @returns The rendered prompt text
+   */
+  renderPrompt(name: string, args: Record<string, string>): string {
+    const template = this.promptTemplates.get(name);
+    if (!template) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const body = renderPromptTemplate(template, args);
+    return `Given this API documentation:
+
+${this.getRelevantDocumentation(body)}
+
+${this.queryMetadata ? `Additional Context:\n${this.queryMetadata}\n\n` : ''}${body}`;
+  }
+
+  /**
+   * Gets the store of multi-turn sessions
+   * @returns The session store
+   */
+  getSessionStore(): SessionStore {
+    return this.sessions;
+  }
+
+  /**
+   * Builds the messages for a request, preceded by the session's earlier turns
+   * @param prompt - The prompt for the current request
+   * @param options - Request options naming the session to continue, if any
+   * @returns The conversation to send
+   */
+  private buildMessages(prompt: string, options?: RequestOptions): ClaudeMessage[] {
+    const session = options?.sessionId ? this.sessions.get(options.sessionId, options.client) : undefined;
+    if (!session) {
+      return [{ role: 'user', content: prompt }];
+    }
+    debugLog(`Continuing session ${session.id} with ${session.turns.length / 2} earlier turn(s)`);
+    const summary = session.summary ? `Summary of the earlier conversation:\n${session.summary}\n\n` : '';
+    return [...session.turns, { role: 'user', content: `${summary}${prompt}` }];
+  }
+
+  /**
+   * Builds the system prompt as content blocks for prompt caching. The system
+   * prompt and query metadata are the same for every request, so they form
+   * the first cached block. The documentation follows in its own block, which
+   * is only marked for caching when the whole documentation fits the context
+   * budget: otherwise each request selects different sections, and caching
+   * them would pay for cache writes that are rarely read. A reload that
+   * changes the content also changes the prefix, so stale entries are never read.
+   * @param documentation - The documentation selected for the request
+   * @returns The system content blocks
+   */
+  private buildSystem(documentation: string): ClaudeContent[] {
+    const instructions = [
+      this.systemPrompt,
+      this.queryMetadata ? `Additional Context:\n${this.queryMetadata}` : '',
+    ].filter(Boolean).join('\n\n');
+    const blocks: ClaudeContent[] = [{ type: 'text', text: instructions, cache_control: { type: 'ephemeral' } }];
+    if (documentation) {
+      blocks.push({
+        type: 'text',
+        text: `API documentation:\n\n${documentation}`,
+        ...(this.fitsContextBudget() ? { cache_control: { type: 'ephemeral' as const } } : {}),
+      });
+    }
+    return blocks;
+  }
+
+  /**
+   * Checks whether all documentation sections fit the context budget, in
+   * which case every request is sent the same documentation
+   * @returns True if no sections are left out of requests
+   */
+  private fitsContextBudget(): boolean {
+    const total = this.docIndex.getSections().reduce((sum, section) => sum + estimateTokens(section.content), 0);
+    return total <= this.contextBudget;
+  }
+
+  /**
+   * Condenses trimmed session turns into a running summary
+   * @param previousSummary - The existing summary, if any
+   * @param turns - The turns being removed from the session
+   * @param options - Signal and usage callback of the request that added the turn
+   * @returns The updated summary
+   */
+  private async summarizeTurns(previousSummary: string | undefined, turns: ClaudeMessage[], options?: SummarizeOptions): Promise<string> {
+    const transcript = turns
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${typeof turn.content === 'string' ? turn.content : ''}`)
+      .join('\n\n');
+    const message = await this.callClaude({
+      model: this.model,
+      max_tokens: Math.min(this.maxTokens, 500),
+      messages: [
+        {
+          role: 'user',
+          content: `${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}Conversation to add:\n${transcript}
+
+Write a brief summary of this conversation that keeps the requests, queries and facts needed to answer follow-up questions.`
+        }
+      ]
+    }, 'session summary', options);
+    return this.validateClaudeResponse(message, 'session summary');
+  }
+
+  /**
+   * Parses a JSON object from a model response, tolerating code fences and surrounding text
+   * @param text - The model response
+   * @returns The parsed object, or undefined if no JSON object was found
+   */
+  private parseJsonResponse(text: string): Record<string, unknown> | undefined {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      return undefined;
+    }
+    try {
+      const parsed = JSON.parse(text.slice(start, end + 1));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Validates and extracts text content from Claude's response
    * @param response - The response from Claude
    * @param context - Context for error messages
-   * @returns The extracted text or an error message
+   * @returns The extracted text
+   * @throws InvalidResponseError if the response has no text
    */
   private validateClaudeResponse(response: ClaudeResponse, context: string): string {
     if (!response?.content?.length) {
       debugLog(`Empty response from Claude for ${context}`);
-      return `Error: Unable to process ${context}`;
+      throw new InvalidResponseError(`Empty response from the model for ${context}`);
     }
 
     const content = response.content[0];
     if (content.type !== 'text' || !content.text) {
       debugLog(`Unexpected response type from Claude for ${context}`);
-      return `Error: Unable to process ${context}`;
+      throw new InvalidResponseError(`Unexpected ${content.type} response from the model for ${context}`);
     }
 
     return content.text;
   }
 
-  private async callClaude(params: Parameters<typeof this.anthropic.messages.create>[0], context: string): Promise<ClaudeResponse> {
-    const timeout = 30000; // 30 seconds timeout
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error(`Request timed out after ${timeout}ms`)), timeout);
-    });
+  /**
+   * Sends a completion to the provider once a slot in the request queue is
+   * free, retrying rate limits, overload and network failures with
+   * exponential backoff and jitter
+   * @param params - The completion parameters
+   * @param context - Description of the request for log messages
+   * @param options - Cancellation signal and usage and queue callbacks
+   * @returns The model response
+   * @throws ExpertError describing the final failure
+   */
+  private async callClaude(params: CompletionParams, context: string, options?: RequestOptions): Promise<ClaudeResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        let started = 0;
+        const response = await this.requestQueue.run(() => {
+          debugLog(`Making API request to ${this.provider.name} provider for ${context}...`);
+          started = Date.now();
+          return this.createMessageWithTimeout(params, options?.signal);
+        }, { signal: options?.signal, onPosition: options?.onQueuePosition });
+        debugLog('Received response from Claude');
+        this.metrics?.recordModelCall(params.model, response.usage, Date.now() - started);
+        const { cache_creation_input_tokens: cacheWrite, cache_read_input_tokens: cacheRead } = response.usage || {};
+        if (cacheWrite !== undefined || cacheRead !== undefined) {
+          debugLog(`Prompt cache for ${context}: ${cacheRead || 0} tokens read, ${cacheWrite || 0} tokens written, ${response.usage.input_tokens} uncached input tokens`);
+        }
+        options?.onUsage?.(response.usage);
+        return response;
+      } catch (caught) {
+        const error = caught instanceof ExpertError
+          ? caught
+          : new ProviderError(`${this.provider.name} provider request failed: ${caught instanceof Error ? caught.message : caught}`, undefined, caught);
+        this.metrics?.recordModelError(params.model, error.code);
+        // A queue timeout already waited the full timeout; queueing again would only multiply the wait
+        if (!error.retryable || error instanceof QueueTimeoutError || attempt >= this.maxRetries) {
+          debugLog(`Claude API request failed for ${context}: ${error.message}`);
+          throw error;
+        }
 
+        // Full backoff doubles each attempt; jitter spreads retries from concurrent requests
+        const backoff = Math.min(this.retryBaseDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+        const delay = error instanceof RateLimitError && error.retryAfterMs !== undefined
+          ? error.retryAfterMs
+          : Math.round(backoff / 2 + Math.random() * backoff / 2);
+        debugLog(`${error.message}; retrying ${context} in ${delay}ms (retry ${attempt + 1}/${this.maxRetries})`);
+        await new Promise<void>((resolve, reject) => {
+          const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancelledError());
+          };
+          const timer = setTimeout(() => {
+            options?.signal?.removeEventListener('abort', onAbort);
+            resolve();
+          }, delay);
+          options?.signal?.addEventListener('abort', onAbort, { once: true });
+        });
+      }
+    }
+  }
+
+  /**
+   * Sends a single completion, aborting it when the request timeout expires
+   * or the caller's signal is aborted
+   * @throws TimeoutError if the provider did not respond in time
+   * @throws CancelledError if the caller cancelled the request
+   */
+  private async createMessageWithTimeout(params: CompletionParams, signal?: AbortSignal): Promise<ClaudeResponse> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(timedOut ? new TimeoutError(this.requestTimeoutMs) : new CancelledError()));
+    });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.requestTimeoutMs);
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', onAbort);
     try {
-      debugLog(`Making API request to Claude for ${context}...`);
-      const response = await Promise.race([
-        this.anthropic.messages.create(params),
-        timeoutPromise
+      // The race also covers providers that do not support cancellation
+      return await Promise.race([
+        this.provider.createMessage(params, { signal: controller.signal }),
+        aborted
       ]);
-      debugLog('Received response from Claude');
-      return response as ClaudeResponse;
     } catch (error) {
-      if (error instanceof Error && error.message.includes('timed out')) {
-        debugLog(`Claude API request timed out for ${context}`);
-      } else {
-        debugLog(`Claude API request failed for ${context}: ${error}`);
+      if (controller.signal.aborted) {
+        throw timedOut ? new TimeoutError(this.requestTimeoutMs) : new CancelledError();
       }
       throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Builds the response cache key for a request
+   * @param tool - The tool answering the request
+   * @param variant - The output format
+   * @param request - The request text
+   * @param options - The request options
+   * @returns The key, or undefined if the response must not be cached
+   */
+  private getCacheKey(tool: string, variant: string, request: string, options?: RequestOptions): CacheKey | undefined {
+    // Session answers depend on the earlier turns, so they are never cached
+    if (!this.responseCache || options?.sessionId) {
+      return undefined;
+    }
+    const hashes = this.getContentHashes();
+    return {
+      tool,
+      variant,
+      request,
+      model: this.model,
+      docsHash: hashes.docs,
+      promptsHash: hashes.prompts,
+    };
+  }
+
+  /**
+   * Gets hashes of the loaded documentation and prompt files
+   * @returns Hex digests, recomputed after each reload
+   */
+  getContentHashes(): { docs: string; prompts: string } {
+    if (!this.contentHashes) {
+      this.contentHashes = {
+        docs: hashDocumentation(this.documentation),
+        prompts: hashContent(this.getPromptSnapshot()),
+      };
+    }
+    return this.contentHashes;
+  }
+
+  /**
+   * Reads a cached response
+   * @param key - The cache key, if the response may be cached
+   * @returns The cached response, or undefined on a miss
+   */
+  private readCache<T>(key: CacheKey | undefined): T | undefined {
+    const cached = key ? this.responseCache?.get<T>(key) : undefined;
+    if (cached !== undefined) {
+      debugLog(`Response cache hit for ${key!.tool} request: ${redactBody(key!.request)}`);
+    }
+    return cached;
+  }
+
+  /**
+   * Ensures there is documentation to answer a request from
+   * @throws EmptyDocumentationError if no documentation is loaded
+   */
+  private requireDocumentation(): void {
+    if (this.documentation.size === 0) {
+      throw new EmptyDocumentationError(this.docsDir);
     }
   }
 
   /**
    * Generates a query based on natural language request
    * @param request - The natural language request
-   * @returns Generated query or error message
+   * @param options - Optional session and cancellation signal
+   * @returns Generated query
+   */
+  async generateQuery(request: string, options?: RequestOptions): Promise<string> {
+    const result = await this.generateValidatedQuery(request, options);
+    return result.query;
+  }
+
+  /**
+   * Generates a query and validates it against any schemas found in the
+   * documentation, asking Claude to repair it when validation fails
+   * @param request - The natural language request
+   * @param options - Set `structured` to also get an explanation and citations
+   * @returns The query with its validation report
+   * @throws ExpertError if the query could not be generated
    */
-  async generateQuery(request: string): Promise<string> {
+  async generateValidatedQuery(request: string, options?: QueryOptions): Promise<QueryResult> {
+    const structured = options?.structured ?? false;
+    const instructions = structured
+      ? `Please respond with ONLY a JSON object with these fields:
+- "query": the query
+- "language": the query language or format, e.g. "http", "graphql" or "sql"
+- "explanation": a short explanation of the query
+- ${CITATION_INSTRUCTIONS}`
+      : 'Please return ONLY the query, with no additional explanation or context.';
+
     const startTime = Date.now();
-    debugLog(`Starting query generation for: "${request}"`);
+    debugLog(`Starting query generation for: ${redactBody(request)}`);
     
     try {
-      const message = await this.callClaude({
-        model: this.model,
-        max_tokens: this.maxTokens,
-        system: this.systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: `Given this API documentation:
-          
-${this.getAllDocumentation()}
+      this.requireDocumentation();
+      const cacheKey = this.getCacheKey('create-query', structured ? 'json' : 'text', request, options);
+      const cached = this.readCache<QueryResult>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+      const system = this.buildSystem(this.getRelevantDocumentation(request));
+      const messages = this.buildMessages(`Using the API documentation provided, generate a query for this request: "${request}"
+
+${instructions}`, options);
 
-${this.queryMetadata ? `Additional Query Context:\n${this.queryMetadata}\n\n` : ''}
+      let query = '';
+      let parsed: Record<string, unknown> | undefined;
+      let validation: ValidationReport | undefined;
+      let repairAttempts = 0;
+      while (true) {
+        const message = await this.callClaude({
+          model: this.model,
+          max_tokens: this.maxTokens,
+          temperature: this.temperature,
+          system,
+          messages
+        }, 'query request', options);
 
-Generate a query for this request: "${request}"
+        const text = this.validateClaudeResponse(message, 'query request');
 
-Please return ONLY the query, with no additional explanation or context.`
+        parsed = structured ? this.parseJsonResponse(text) : undefined;
+        query = typeof parsed?.query === 'string' ? parsed.query : text;
+        validation = this.validateQuery(query);
+        if (!validation || validation.valid || repairAttempts >= this.maxRepairAttempts) {
+          break;
+        }
+
+        repairAttempts++;
+        debugLog(`Query failed ${validation.validator} validation, repair attempt ${repairAttempts}/${this.maxRepairAttempts}`);
+        messages.push(
+          { role: 'assistant', content: text },
+          {
+            role: 'user',
+            content: `That query failed validation against the ${validation.validator} schema:
+${validation.errors.map(error => `- ${error}`).join('\n')}
+
+Fix these problems. ${structured
+  ? 'Please respond with ONLY the corrected JSON object in the same format.'
+  : 'Please return ONLY the corrected query, with no additional explanation or context.'}`
           }
-        ]
-      }, `query request: "${request}"`);
+        );
+      }
 
-      const response = this.validateClaudeResponse(message, `query request: "${request}"`);
       const duration = Date.now() - startTime;
-      debugLog(`Query generation completed in ${duration}ms`);
-      return response;
+      debugLog(`Query generation completed in ${duration}ms${validation ? ` (validation ${validation.valid ? 'passed' : 'failed'})` : ''}`);
+      if (options?.sessionId) {
+        await this.sessions.append(options.sessionId, request, query, options.client, options);
+      }
+      const result: QueryResult = structured
+        ? {
+          query,
+          validation,
+          repairAttempts,
+          language: typeof parsed?.language === 'string' ? parsed.language : undefined,
+          explanation: typeof parsed?.explanation === 'string' ? parsed.explanation : '',
+          citations: verifyCitations(parsed?.citations, this.documentation, this.docIndex.getSections()),
+        }
+        : { query, validation, repairAttempts };
+      // Queries that still fail validation are not cached, so asking again gets a fresh attempt
+      if (cacheKey && (!validation || validation.valid)) {
+        this.responseCache!.set(cacheKey, result);
+      }
+      return result;
     } catch (error) {
       const duration = Date.now() - startTime;
       debugLog(`Query generation failed after ${duration}ms: ${error}`);
-      return `Error: Unable to generate query for request: "${request}"`;
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a query against the API. When the API rejects the query and the
+   * original request is given, Claude is shown the status and response body
+   * and asked to fix the query, which is then run again.
+   * @param executor - Runs queries against the configured API
+   * @param query - The query to run
+   * @param options - The original request, GraphQL variables and cancellation signal
+   * @returns The final query and the API's response to it
+   * @throws ExpertError if the query could not be run or repaired
+   */
+  async runQuery(executor: QueryExecutor, query: string, options?: RunQueryOptions): Promise<QueryRunResult> {
+    const failedAttempts: QueryRunResult['failedAttempts'] = [];
+    let result = await executor.execute(query, options);
+    while (isFailedExecution(result) && options?.request && failedAttempts.length < this.maxRepairAttempts) {
+      failedAttempts.push({ query, status: result.status });
+      debugLog(`Query failed with status ${result.status}, repair attempt ${failedAttempts.length}/${this.maxRepairAttempts}`);
+      query = await this.repairFailedQuery(options.request, query, result, options);
+      result = await executor.execute(query, { variables: options.variables, signal: options.signal });
+    }
+    return { query, result, repairAttempts: failedAttempts.length, failedAttempts };
+  }
+
+  /**
+   * Writes a runnable snippet that sends a query, generating the query first
+   * when only a request is given. Requests to an endpoint of a loaded OpenAPI
+   * document are rendered from a template, with headers and base URL from
+   * query-metadata.txt; other queries are translated by Claude.
+   * @param input - The request, or the query to translate
+   * @param language - The snippet language
+   * @param options - Cancellation signal and usage callbacks
+   * @returns The snippet with an explanation of its parameters
+   * @throws ExpertError if the query could not be generated or translated
+   */
+  async generateClientCode(input: ClientCodeInput, language: ClientLanguage, options?: RequestOptions): Promise<ClientCodeResult> {
+    const startTime = Date.now();
+    const query = input.query ?? (await this.generateValidatedQuery(input.request, options)).query;
+
+    const http = parseHttpRequest(query);
+    const openApi = this.validators.find((validator): validator is OpenApiValidator => validator instanceof OpenApiValidator);
+    const endpoint = http && !http.urlError ? openApi?.findEndpoint(http) : undefined;
+    if (http && endpoint) {
+      const request = buildClientRequest(http, parseClientConventions(this.queryMetadata), openApi!.getServerUrl(endpoint));
+      debugLog(`Rendered ${language} snippet for ${endpoint.method} ${endpoint.path} in ${Date.now() - startTime}ms`);
+      return {
+        language,
+        code: renderClientCode(language, request),
+        explanation: explainEndpoint(endpoint, http, request),
+        query,
+        source: 'openapi',
+        endpoint: `${endpoint.method} ${endpoint.path}`,
+      };
+    }
+
+    try {
+      this.requireDocumentation();
+      const cacheKey = this.getCacheKey('generate-client-code', language, query, options);
+      const cached = this.readCache<ClientCodeResult>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+      const context = input.request ?? query;
+      const message = await this.callClaude({
+        model: this.model,
+        max_tokens: this.maxTokens,
+        temperature: this.temperature,
+        system: this.buildSystem(this.getRelevantDocumentation(context)),
+        messages: [{
+          role: 'user',
+          content: `Write a runnable snippet in ${CLIENT_LANGUAGE_NAMES[language]} that sends this query to the API:
+
+${query}
+
+Use the base URL, authentication and header conventions from the documentation and additional context. Read credentials and other secrets from environment variables instead of writing them into the code. Please respond with ONLY a JSON object with these fields:
+- "code": the snippet, without a code fence
+- "explanation": a short explanation of each parameter the snippet sends and of the environment variables it reads`
+        }]
+      }, 'client code request', options);
+
+      const text = this.validateClaudeResponse(message, 'client code request');
+      const parsed = this.parseJsonResponse(text);
+      const result: ClientCodeResult = {
+        language,
+        code: typeof parsed?.code === 'string' ? parsed.code : stripCodeFence(text),
+        explanation: typeof parsed?.explanation === 'string' ? parsed.explanation : '',
+        query,
+        source: 'model',
+      };
+      if (cacheKey) {
+        this.responseCache!.set(cacheKey, result);
+      }
+      debugLog(`Client code generation completed in ${Date.now() - startTime}ms`);
+      return result;
+    } catch (error) {
+      debugLog(`Client code generation failed after ${Date.now() - startTime}ms: ${error}`);
+      throw error;
     }
   }
 
+  /**
+   * Asks Claude to fix a query the API rejected
+   * @returns The corrected query
+   */
+  private async repairFailedQuery(request: string, query: string, result: ExecutionResult, options?: RequestOptions): Promise<string> {
+    this.requireDocumentation();
+    const instructions = 'Please return ONLY the query, with no additional explanation or context.';
+    // A long error page adds little beyond its first part
+    const body = result.body.length > 2000 ? `${result.body.slice(0, 2000)}\n[truncated]` : result.body;
+    const messages = this.buildMessages(`Using the API documentation provided, generate a query for this request: "${request}"
+
+${instructions}`);
+    messages.push(
+      { role: 'assistant', content: query },
+      {
+        role: 'user',
+        content: `When that query was run against the API (${result.request.method} ${result.request.url}), it failed (HTTP ${result.status} ${result.statusText}):
+${body}
+
+Fix the query. ${instructions}`
+      }
+    );
+
+    const message = await this.callClaude({
+      model: this.model,
+      max_tokens: this.maxTokens,
+      temperature: this.temperature,
+      system: this.buildSystem(this.getRelevantDocumentation(request)),
+      messages
+    }, 'query repair request', options);
+    return this.validateClaudeResponse(message, 'query repair request');
+  }
+
   /**
    * Gets information from documentation based on a question
    * @param request - The documentation question
-   * @returns Response from documentation or error message
+   * @param options - Optional session to continue and cancellation signal
+   * @returns Response from documentation
+   * @throws ExpertError if the question could not be answered
    */
-  async getDocumentationResponse(request: string): Promise<string> {
+  async getDocumentationResponse(request: string, options?: RequestOptions): Promise<string> {
     const startTime = Date.now();
-    debugLog(`Starting documentation request for: "${request}"`);
+    debugLog(`Starting documentation request for: ${redactBody(request)}`);
     
     try {
+      this.requireDocumentation();
+      const cacheKey = this.getCacheKey('documentation', 'text', request, options);
+      const cached = this.readCache<string>(cacheKey);
+      if (cached !== undefined) {
+        return cached;
+      }
       const message = await this.callClaude({
         model: this.model,
         max_tokens: this.maxTokens,
-        system: this.systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: `Given this API documentation:
-          
-${this.getAllDocumentation()}
+        temperature: this.temperature,
+        system: this.buildSystem(this.getRelevantDocumentation(request)),
+        messages: this.buildMessages(`Answer this question about the API documentation provided: "${request}"
 
-${this.queryMetadata ? `Additional Context:\n${this.queryMetadata}\n\n` : ''}
+Please provide a clear, concise response based solely on the provided documentation and context.`, options)
+      }, 'documentation request', options);
 
-Answer this question about the documentation: "${request}"
-
-Please provide a clear, concise response based solely on the provided documentation and context.`
-          }
-        ]
-      }, `documentation request: "${request}"`);
-
-      const response = this.validateClaudeResponse(message, `documentation request: "${request}"`);
+      const response = this.validateClaudeResponse(message, 'documentation request');
+      if (options?.sessionId) {
+        await this.sessions.append(options.sessionId, request, response, options.client, options);
+      }
+      if (cacheKey) {
+        this.responseCache!.set(cacheKey, response);
+      }
       const duration = Date.now() - startTime;
       debugLog(`Documentation request completed in ${duration}ms`);
       return response;
     } catch (error) {
       const duration = Date.now() - startTime;
       debugLog(`Documentation request failed after ${duration}ms: ${error}`);
-      return `Error: Unable to process documentation request: "${request}"`;
+      throw error;
+    }
+  }
+
+  /**
+   * Answers a documentation question with a structured result including
+   * citations, which are checked against the loaded documentation
+   * @param request - The documentation question
+   * @param options - Optional session to continue and cancellation signal
+   * @returns The structured answer
+   * @throws ExpertError if the question could not be answered
+   */
+  async getStructuredDocumentationResponse(request: string, options?: RequestOptions): Promise<DocumentationResult> {
+    const startTime = Date.now();
+    debugLog(`Starting structured documentation request for: ${redactBody(request)}`);
+    
+    try {
+      this.requireDocumentation();
+      const cacheKey = this.getCacheKey('documentation', 'json', request, options);
+      const cached = this.readCache<DocumentationResult>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+      const message = await this.callClaude({
+        model: this.model,
+        max_tokens: this.maxTokens,
+        temperature: this.temperature,
+        system: this.buildSystem(this.getRelevantDocumentation(request)),
+        messages: this.buildMessages(`Answer this question about the API documentation provided: "${request}"
+
+Base your answer solely on the provided documentation and context. Please respond with ONLY a JSON object with these fields:
+- "answer": a clear, concise answer
+- "format": the format of the answer, e.g. "markdown" or "text"
+- "explanation": a short note on how the answer was derived
+- ${CITATION_INSTRUCTIONS}`, options)
+      }, 'documentation request', options);
+
+      const response = this.validateClaudeResponse(message, 'documentation request');
+
+      const parsed = this.parseJsonResponse(response);
+      const citations = verifyCitations(parsed?.citations, this.documentation, this.docIndex.getSections());
+      const returned = Array.isArray(parsed?.citations) ? parsed.citations.length : 0;
+      if (returned > citations.length) {
+        debugLog(`Dropped ${returned - citations.length} citation(s) that did not match the documentation`);
+      }
+
+      const answer = typeof parsed?.answer === 'string' ? parsed.answer : response;
+      if (options?.sessionId) {
+        await this.sessions.append(options.sessionId, request, answer, options.client, options);
+      }
+
+      const duration = Date.now() - startTime;
+      debugLog(`Structured documentation request completed in ${duration}ms`);
+      const result: DocumentationResult = {
+        answer,
+        format: typeof parsed?.format === 'string' ? parsed.format : 'text',
+        explanation: typeof parsed?.explanation === 'string' ? parsed.explanation : '',
+        citations,
+      };
+      if (cacheKey) {
+        this.responseCache!.set(cacheKey, result);
+      }
+      return result;
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      debugLog(`Structured documentation request failed after ${duration}ms: ${error}`);
+      throw error;
     }
   }
 
   /**
    * Analyzes the documentation to generate a service description
+   * @param force - Regenerate the description even if one is loaded
    * @returns A promise that resolves to the service description
    */
-  async analyzeDocumentation(): Promise<string> {
+  async analyzeDocumentation(force = false): Promise<string> {
     // If we already have a description, return it
-    if (this.serviceDescription) {
+    if (this.serviceDescription && !force) {
       return this.serviceDescription;
     }
 
     debugLog('Analyzing documentation to generate service description...');
     
     try {
-      const docs = this.getAllDocumentation();
+      const docs = this.getRelevantDocumentation(this.toolMetadata);
       if (!docs) {
         debugLog('No documentation available for analysis');
         return '';
@@ -379,6 +1145,7 @@ Please provide a clear, concise response based solely on the provided documentat
       const message = await this.callClaude({
         model: this.model,
         max_tokens: this.maxTokens,
+        temperature: this.temperature,
         system: this.systemPrompt,
         messages: [
           {
@@ -397,12 +1164,8 @@ Your response should be direct and focused on the core functionality, suitable f
 
       debugLog('Received response from Claude');
       const description = this.validateClaudeResponse(message, 'documentation analysis');
-      if (!description.startsWith('Error:')) {
-        debugLog('Successfully generated service description: ' + description);
-        this.serviceDescription = description;
-      } else {
-        debugLog('Failed to generate service description: ' + description);
-      }
+      debugLog('Successfully generated service description: ' + description);
+      this.serviceDescription = description;
       
       return this.serviceDescription;
     } catch (error) {
@@ -425,25 +1188,128 @@ Your response should be direct and focused on the core functionality, suitable f
 
   /**
    * Reloads all documentation and metadata files and updates the service description
-   * @returns A promise that resolves when the reload is complete
+   * @returns The changes found during the reload
    */
-  async reloadDocumentation(): Promise<void> {
+  async reloadDocumentation(): Promise<DocumentationChange> {
     debugLog('Reloading documentation and metadata...');
+    const previous = new Map(this.documentation);
     
     // Clear existing documentation
     this.documentation.clear();
     
     // Reload all files
     this.loadDocumentation();
-    this.systemPrompt = this.loadSystemPrompt();
-    this.toolMetadata = this.loadToolMetadata();
-    this.queryMetadata = this.loadQueryMetadata();
-    
-    // Update service description
-    debugLog('Updating service description...');
-    await this.analyzeDocumentation();
+    return this.completeReload(previous, true);
+  }
+
+  /**
+   * Reloads only the given documentation files, plus the prompt files if requested
+   * @param docFiles - Changed paths relative to the docs directory, with `/` separators
+   * @param reloadPrompts - Whether to reload the prompt and metadata files
+   * @returns The changes found during the reload
+   */
+  async reloadFiles(docFiles: string[], reloadPrompts: boolean): Promise<DocumentationChange> {
+    // A changed directory may have added or removed any number of files below it
+    const changedDirectory = docFiles.some(file => {
+      if (isDocumentationFile(file)) {
+        return false;
+      }
+      const path = join(this.docsDir, file);
+      return existsSync(path)
+        ? statSync(path).isDirectory()
+        : Array.from(this.documentation.keys()).some(key => key.startsWith(`${file}/`));
+    });
+    if (changedDirectory) {
+      return this.reloadDocumentation();
+    }
+
+    debugLog(`Reloading ${docFiles.length} documentation file(s)${reloadPrompts ? ' and prompts' : ''}...`);
+    const previous = new Map(this.documentation);
+    for (const file of docFiles) {
+      this.loadDocumentationFile(file);
+    }
+    return this.completeReload(previous, reloadPrompts);
+  }
+
+  /**
+   * Rebuilds derived state after documentation was reloaded, regenerates the
+   * service description if the content changed, and notifies listeners
+   * @param previous - The documentation before the reload
+   * @param reloadPrompts - Whether to reload the prompt and metadata files
+   * @returns The changes found during the reload
+   */
+  private async completeReload(previous: Map<string, string>, reloadPrompts: boolean): Promise<DocumentationChange> {
+    this.contentHashes = undefined;
+    const change: DocumentationChange = {
+      added: Array.from(this.documentation.keys()).filter(file => !previous.has(file)),
+      removed: Array.from(previous.keys()).filter(file => !this.documentation.has(file)),
+      modified: Array.from(this.documentation.keys())
+        .filter(file => previous.has(file) && previous.get(file) !== this.documentation.get(file)),
+      promptsChanged: false,
+      descriptionChanged: false
+    };
+    const docsChanged = change.added.length > 0 || change.removed.length > 0 || change.modified.length > 0;
+
+    if (docsChanged) {
+      this.docIndex.build(this.documentation);
+      this.validators = this.createValidators();
+    }
+
+    let toolMetadataChanged = false;
+    let storedDescription: string | undefined;
+    if (reloadPrompts) {
+      const before = this.getPromptSnapshot();
+      const previousToolMetadata = this.toolMetadata;
+      this.systemPrompt = this.loadSystemPrompt();
+      this.toolMetadata = this.loadToolMetadata();
+      this.queryMetadata = this.loadQueryMetadata();
+      this.promptTemplates = loadPromptTemplates(join(this.promptsDir, 'templates'));
+      change.promptsChanged = before !== this.getPromptSnapshot();
+      toolMetadataChanged = previousToolMetadata !== this.toolMetadata;
+      storedDescription = this.loadServiceDescription();
+    }
+
+    const previousDescription = this.serviceDescription;
+    if (docsChanged || toolMetadataChanged) {
+      // Update service description
+      debugLog('Updating service description...');
+      this.serviceDescription = '';
+      await this.analyzeDocumentation();
+      if (!this.serviceDescription) {
+        this.serviceDescription = previousDescription;
+      }
+    } else if (storedDescription) {
+      this.serviceDescription = storedDescription;
+    }
+    change.descriptionChanged = previousDescription !== this.serviceDescription;
+
+    if (docsChanged || change.promptsChanged) {
+      debugLog('Cached prompt prefix changed; the next request will create a new cache entry');
+    }
+    if (docsChanged || change.promptsChanged || change.descriptionChanged) {
+      debugLog(`Documentation changed: ${change.added.length} added, ${change.removed.length} removed, ${change.modified.length} modified`);
+      for (const listener of this.changeListeners) {
+        listener(change);
+      }
+    }
     
     debugLog('Documentation reload complete');
+    return change;
+  }
+
+  /**
+   * Serializes the loaded prompt files so reloads can detect changes
+   */
+  private getPromptSnapshot(): string {
+    return JSON.stringify([this.systemPrompt, this.toolMetadata, this.queryMetadata, this.getPromptTemplates()]);
+  }
+
+  /**
+   * Gets the include and exclude patterns and size limit for documentation files
+   * @returns The loader options
+   */
+  getDocLoaderOptions(): DocLoaderOptions {
+    return this.docLoaderOptions;
   }
 
   /**
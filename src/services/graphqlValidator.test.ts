@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { GraphQLValidator, extractGraphQLOperation } from './graphqlValidator.js';
+
+const SCHEMA = `
+type Query {
+  user(id: ID!): User
+  users(limit: Int): [User!]!
+}
+
+type User {
+  id: ID!
+  name: String
+}
+`;
+
+function createValidator() {
+  return GraphQLValidator.fromDocumentation(new Map([['schema.graphql', SCHEMA], ['api.md', '# API']]))!;
+}
+
+describe('extractGraphQLOperation', () => {
+  it('reads the operation and a JSON variables fence', () => {
+    expect(extractGraphQLOperation('```graphql\nquery { users { id } }\n```\n```json\n{"limit": 5}\n```')).toEqual({
+      source: 'query { users { id } }',
+      variables: { limit: 5 },
+    });
+    expect(extractGraphQLOperation('  { users { id } }  ')).toEqual({ source: '{ users { id } }' });
+  });
+
+  it('ignores malformed variables', () => {
+    expect(extractGraphQLOperation('```graphql\n{ users { id } }\n```\n```json\n{limit}\n```')).toEqual({ source: '{ users { id } }' });
+  });
+});
+
+describe('GraphQLValidator', () => {
+  it('is only created from documentation with a valid schema', () => {
+    expect(GraphQLValidator.fromDocumentation(new Map([['api.md', '# API']]))).toBeUndefined();
+    expect(GraphQLValidator.fromDocumentation(new Map([['broken.graphql', 'type Query {']]))).toBeUndefined();
+  });
+
+  it('accepts valid operations and names their target', () => {
+    expect(createValidator().validate('query ListUsers { users(limit: 2) { id name } }')).toEqual({
+      validator: 'GraphQL', valid: true, errors: [], target: 'query ListUsers',
+    });
+  });
+
+  it('reports syntax and schema errors', () => {
+    const validator = createValidator();
+    expect(validator.validate('query { users { id }')?.errors[0]).toMatch(/^Syntax error: /);
+    expect(validator.validate('query { users { email } }')?.errors).toEqual(['Cannot query field "email" on type "User".']);
+  });
+
+  it('checks variables against the operation definitions', () => {
+    const validator = createValidator();
+    const operation = 'query GetUser($id: ID!, $limit: Int) { user(id: $id) { id } users(limit: $limit) { id } }';
+    expect(validator.validate(`\`\`\`graphql\n${operation}\n\`\`\`\n\`\`\`json\n{"limit": "many"}\n\`\`\``)?.errors).toEqual([
+      'Missing required variable "$id" of type ID!',
+      'Variable "$limit": Int cannot represent non-integer value: "many"',
+    ]);
+    expect(validator.validate(`\`\`\`graphql\n${operation}\n\`\`\`\n\`\`\`json\n{"id": "1"}\n\`\`\``)?.valid).toBe(true);
+  });
+
+  it('ignores queries that are not GraphQL', () => {
+    expect(createValidator().validate('GET /users')).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  GraphQLError,
+  GraphQLSchema,
+  buildSchema,
+  parse,
+  validate,
+  Kind,
+  OperationDefinitionNode,
+  coerceInputValue,
+  isNonNullType,
+  typeFromAST,
+  isInputType,
+} from 'graphql';
+import { QueryValidator, ValidationReport } from './queryValidation.js';
+import { debugLog } from '../logger.js';
+
+const OPERATION_START = /^(query|mutation|subscription|fragment)\b|^\{/;
+
+/**
+ * Extracts the GraphQL document and optional variables JSON from model output.
+ * The document is the first code fence (or the whole text); variables may
+ * follow in a second JSON code fence.
+ */
+export function extractGraphQLOperation(text: string): { source: string; variables?: Record<string, unknown> } {
+  const fences = Array.from(text.matchAll(/```([\w-]*)\r?\n([\s\S]*?)```/g));
+  if (fences.length === 0) {
+    return { source: text.trim() };
+  }
+
+  const source = fences[0][2].trim();
+  const variablesFence = fences.slice(1).find(fence => fence[1] === 'json' || /^\s*\{/.test(fence[2]));
+  if (!variablesFence) {
+    return { source };
+  }
+  try {
+    return { source, variables: JSON.parse(variablesFence[2]) };
+  } catch {
+    return { source };
+  }
+}
+
+/**
+ * Validates generated GraphQL operations against the SDL schema files in the documentation
+ */
+export class GraphQLValidator implements QueryValidator {
+  readonly name = 'GraphQL';
+
+  /**
+   * Creates a new instance of GraphQLValidator
+   * @param schema - The schema built from the documentation SDL files
+   */
+  constructor(private readonly schema: GraphQLSchema) {}
+
+  /**
+   * Builds a validator from the `.graphql`/`.gql` files in the loaded documentation
+   * @param documentation - Map of file names to file contents
+   * @returns The validator, or undefined if there is no usable schema
+   */
+  static fromDocumentation(documentation: ReadonlyMap<string, string>): GraphQLValidator | undefined {
+    const files = Array.from(documentation.keys()).filter(file => /\.(graphql|gql)$/i.test(file));
+    if (files.length === 0) {
+      return undefined;
+    }
+
+    try {
+      const sdl = files.map(file => documentation.get(file)).join('\n\n');
+      return new GraphQLValidator(buildSchema(sdl));
+    } catch (error) {
+      debugLog(`Failed to build GraphQL schema from ${files.join(', ')}: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets the schema used for validation
+   * @returns The GraphQL schema
+   */
+  getSchema(): GraphQLSchema {
+    return this.schema;
+  }
+
+  validate(query: string): ValidationReport | undefined {
+    const { source, variables } = extractGraphQLOperation(query);
+    if (!OPERATION_START.test(source)) {
+      return undefined;
+    }
+
+    let document;
+    try {
+      document = parse(source);
+    } catch (error) {
+      return {
+        validator: this.name,
+        valid: false,
+        errors: [`Syntax error: ${error instanceof GraphQLError ? error.message : String(error)}`],
+      };
+    }
+
+    const errors = validate(this.schema, document).map(error => error.message);
+    const operations = document.definitions
+      .filter((definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION);
+
+    if (variables && errors.length === 0) {
+      for (const operation of operations) {
+        errors.push(...this.validateVariables(operation, variables));
+      }
+    }
+
+    const target = operations
+      .map(operation => `${operation.operation}${operation.name ? ` ${operation.name.value}` : ''}`)
+      .join(', ');
+    return { validator: this.name, valid: errors.length === 0, errors, target: target || undefined };
+  }
+
+  /**
+   * Checks supplied variable values against an operation's variable definitions
+   */
+  private validateVariables(operation: OperationDefinitionNode, variables: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    for (const definition of operation.variableDefinitions || []) {
+      const name = definition.variable.name.value;
+      const type = typeFromAST(this.schema, definition.type);
+      if (!type || !isInputType(type)) {
+        continue;
+      }
+
+      if (!(name in variables)) {
+        if (isNonNullType(type) && !definition.defaultValue) {
+          errors.push(`Missing required variable "$${name}" of type ${type}`);
+        }
+        continue;
+      }
+
+      coerceInputValue(variables[name], type, (path, _invalid, error) => {
+        const at = [name, ...path].join('.');
+        errors.push(`Variable "$${at}": ${error.message}`);
+      });
+    }
+    return errors;
+  }
+}
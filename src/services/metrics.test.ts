@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { UsageMetrics } from './metrics.js';
+
+describe('UsageMetrics', () => {
+  it('counts tool calls, errors and latency', () => {
+    const metrics = new UsageMetrics();
+    metrics.recordToolCall('create-query', 200);
+    metrics.recordToolCall('create-query', 600, 'timeout');
+    metrics.recordToolCall('stats', 5);
+
+    const { tools, totals } = metrics.getSnapshot();
+    expect(tools['create-query']).toMatchObject({ calls: 2, errors: { timeout: 1 }, averageMs: 400, maxMs: 600 });
+    expect(tools['create-query'].latencyBuckets).toMatchObject({ '<=0.25s': 1, '<=0.5s': 1, '<=1s': 2 });
+    expect(totals).toMatchObject({ toolCalls: 3, toolErrors: 1 });
+  });
+
+  it('estimates cost from the longest matching price prefix, including prompt caching', () => {
+    const metrics = new UsageMetrics({ 'claude-3-5-sonnet-custom': { input: 1, output: 2, cacheRead: 0.5 } });
+    metrics.recordModelCall('claude-3-5-sonnet-20241022', { input_tokens: 1_000_000, output_tokens: 1_000_000, cache_creation_input_tokens: 1_000_000 }, 100);
+    metrics.recordModelCall('claude-3-5-sonnet-custom', { input_tokens: 0, output_tokens: 1_000_000, cache_read_input_tokens: 2_000_000 }, 100);
+
+    const { models, totals } = metrics.getSnapshot();
+    expect(models['claude-3-5-sonnet-20241022'].estimatedCostUsd).toBe(3 + 15 + 3.75);
+    expect(models['claude-3-5-sonnet-custom'].estimatedCostUsd).toBe(2 + 1);
+    expect(totals.estimatedCostUsd).toBe(24.75);
+    expect(totals.inputTokens).toBe(4_000_000);
+  });
+
+  it('leaves the cost of unknown models undefined', () => {
+    const metrics = new UsageMetrics();
+    metrics.recordModelCall('local-llama', { input_tokens: 10, output_tokens: 10 }, 100);
+    metrics.recordModelError('local-llama', 'overloaded');
+    const { models, totals } = metrics.getSnapshot();
+    expect(models['local-llama']).toMatchObject({ requests: 1, errors: { overloaded: 1 }, estimatedCostUsd: undefined });
+    expect(totals.estimatedCostUsd).toBe(0);
+  });
+
+  it('formats the metrics for Prometheus with escaped labels', () => {
+    const metrics = new UsageMetrics();
+    metrics.recordToolCall('create-query', 300, 'timeout');
+    metrics.recordModelCall('claude-3-haiku "fast"', { input_tokens: 4, output_tokens: 2 }, 50);
+
+    const text = metrics.toPrometheus();
+    expect(text).toContain('# TYPE expert_tool_calls_total counter\nexpert_tool_calls_total{tool="create-query"} 1\n');
+    expect(text).toContain('expert_tool_errors_total{tool="create-query",code="timeout"} 1\n');
+    expect(text).toContain('expert_tool_duration_seconds_bucket{tool="create-query",le="0.25"} 0\n');
+    expect(text).toContain('expert_tool_duration_seconds_bucket{tool="create-query",le="+Inf"} 1\n');
+    expect(text).toContain('expert_tokens_total{model="claude-3-haiku \\"fast\\"",type="input"} 4\n');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
@@ -0,0 +1,340 @@
+import { ClaudeResponse } from './providers/index.js';
+
+/**
+ * Prices of one model in US dollars per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  // Defaults to 1.25 times the input price
+  cacheWrite?: number;
+  // Defaults to a tenth of the input price
+  cacheRead?: number;
+}
+
+/**
+ * Prices keyed by model name, or by a prefix of model names
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Published Anthropic list prices, used for models missing from the configured table
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+};
+
+/**
+ * Tool name recorded for calls to tools the server does not offer, so that
+ * client-chosen names cannot add metric labels
+ */
+export const UNKNOWN_TOOL = 'unknown';
+
+// Upper bounds of the latency histogram buckets, in seconds
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+interface Histogram {
+  // Cumulative counts, one per bucket
+  buckets: number[];
+  count: number;
+  sumSeconds: number;
+  maxSeconds: number;
+}
+
+interface ToolMetrics {
+  calls: number;
+  errors: Record<string, number>;
+  latency: Histogram;
+}
+
+interface ModelMetrics {
+  requests: number;
+  errors: Record<string, number>;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  priced: boolean;
+  latency: Histogram;
+}
+
+/**
+ * Snapshot of the collected metrics, as returned by the stats tool
+ */
+export interface MetricsSnapshot {
+  since: string;
+  tools: Record<string, {
+    calls: number;
+    errors: Record<string, number>;
+    averageMs: number;
+    maxMs: number;
+    latencyBuckets: Record<string, number>;
+  }>;
+  models: Record<string, {
+    requests: number;
+    errors: Record<string, number>;
+    averageMs: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationInputTokens: number;
+    cacheReadInputTokens: number;
+    // Undefined when no price is known for the model
+    estimatedCostUsd?: number;
+  }>;
+  totals: {
+    toolCalls: number;
+    toolErrors: number;
+    inputTokens: number;
+    outputTokens: number;
+    estimatedCostUsd: number;
+  };
+}
+
+function createHistogram(): Histogram {
+  return { buckets: LATENCY_BUCKETS.map(() => 0), count: 0, sumSeconds: 0, maxSeconds: 0 };
+}
+
+function observe(histogram: Histogram, seconds: number): void {
+  LATENCY_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) {
+      histogram.buckets[index]++;
+    }
+  });
+  histogram.count++;
+  histogram.sumSeconds += seconds;
+  histogram.maxSeconds = Math.max(histogram.maxSeconds, seconds);
+}
+
+function sum(values: Record<string, number>): number {
+  return Object.values(values).reduce((total, value) => total + value, 0);
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * In-memory usage metrics: tool calls, latency, token usage, errors and
+ * estimated cost. Shared by every session of a server process.
+ */
+export class UsageMetrics {
+  private readonly startedAt = Date.now();
+  private readonly tools = new Map<string, ToolMetrics>();
+  private readonly models = new Map<string, ModelMetrics>();
+  private readonly prices: PriceTable;
+
+  /**
+   * Creates a new instance of UsageMetrics
+   * @param prices - Prices that add to or replace the default prices
+   */
+  constructor(prices?: PriceTable) {
+    this.prices = { ...DEFAULT_PRICES, ...prices };
+  }
+
+  /**
+   * Records a finished tool call
+   * @param tool - The tool name, or UNKNOWN_TOOL for tools the server does not offer
+   * @param durationMs - Time taken to answer
+   * @param errorCode - The error code if the call failed
+   */
+  recordToolCall(tool: string, durationMs: number, errorCode?: string): void {
+    let metrics = this.tools.get(tool);
+    if (!metrics) {
+      metrics = { calls: 0, errors: {}, latency: createHistogram() };
+      this.tools.set(tool, metrics);
+    }
+    metrics.calls++;
+    observe(metrics.latency, durationMs / 1000);
+    if (errorCode) {
+      metrics.errors[errorCode] = (metrics.errors[errorCode] || 0) + 1;
+    }
+  }
+
+  /**
+   * Records a successful model request and its token usage
+   * @param model - The model name
+   * @param usage - Token usage reported by the provider
+   * @param durationMs - Time taken by the request
+   */
+  recordModelCall(model: string, usage: ClaudeResponse['usage'] | undefined, durationMs: number): void {
+    const metrics = this.getModelMetrics(model);
+    metrics.requests++;
+    observe(metrics.latency, durationMs / 1000);
+    if (!usage) {
+      return;
+    }
+
+    const cacheWrite = usage.cache_creation_input_tokens || 0;
+    const cacheRead = usage.cache_read_input_tokens || 0;
+    metrics.inputTokens += usage.input_tokens || 0;
+    metrics.outputTokens += usage.output_tokens || 0;
+    metrics.cacheCreationInputTokens += cacheWrite;
+    metrics.cacheReadInputTokens += cacheRead;
+
+    const price = this.getPrice(model);
+    if (price) {
+      metrics.priced = true;
+      metrics.costUsd += ((usage.input_tokens || 0) * price.input
+        + (usage.output_tokens || 0) * price.output
+        + cacheWrite * (price.cacheWrite ?? price.input * 1.25)
+        + cacheRead * (price.cacheRead ?? price.input * 0.1)) / 1_000_000;
+    }
+  }
+
+  /**
+   * Records a failed model request, including ones that are retried
+   * @param model - The model name
+   * @param errorCode - The error code
+   */
+  recordModelError(model: string, errorCode: string): void {
+    const metrics = this.getModelMetrics(model);
+    metrics.errors[errorCode] = (metrics.errors[errorCode] || 0) + 1;
+  }
+
+  /**
+   * Gets the metrics collected since the server started
+   * @returns The metrics snapshot
+   */
+  getSnapshot(): MetricsSnapshot {
+    const toMs = (seconds: number) => Math.round(seconds * 1000);
+    const snapshot: MetricsSnapshot = {
+      since: new Date(this.startedAt).toISOString(),
+      tools: {},
+      models: {},
+      totals: { toolCalls: 0, toolErrors: 0, inputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 },
+    };
+
+    for (const [tool, metrics] of this.tools) {
+      snapshot.tools[tool] = {
+        calls: metrics.calls,
+        errors: { ...metrics.errors },
+        averageMs: toMs(metrics.latency.sumSeconds / metrics.latency.count),
+        maxMs: toMs(metrics.latency.maxSeconds),
+        latencyBuckets: Object.fromEntries(LATENCY_BUCKETS.map((bound, index) => [`<=${bound}s`, metrics.latency.buckets[index]])),
+      };
+      snapshot.totals.toolCalls += metrics.calls;
+      snapshot.totals.toolErrors += sum(metrics.errors);
+    }
+
+    for (const [model, metrics] of this.models) {
+      snapshot.models[model] = {
+        requests: metrics.requests,
+        errors: { ...metrics.errors },
+        averageMs: metrics.latency.count > 0 ? toMs(metrics.latency.sumSeconds / metrics.latency.count) : 0,
+        inputTokens: metrics.inputTokens,
+        outputTokens: metrics.outputTokens,
+        cacheCreationInputTokens: metrics.cacheCreationInputTokens,
+        cacheReadInputTokens: metrics.cacheReadInputTokens,
+        estimatedCostUsd: metrics.priced ? Number(metrics.costUsd.toFixed(6)) : undefined,
+      };
+      snapshot.totals.inputTokens += metrics.inputTokens + metrics.cacheCreationInputTokens + metrics.cacheReadInputTokens;
+      snapshot.totals.outputTokens += metrics.outputTokens;
+      snapshot.totals.estimatedCostUsd += metrics.costUsd;
+    }
+    snapshot.totals.estimatedCostUsd = Number(snapshot.totals.estimatedCostUsd.toFixed(6));
+    return snapshot;
+  }
+
+  /**
+   * Formats the metrics in the Prometheus text exposition format
+   * @returns The metrics text
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    };
+    const labels = (values: Record<string, string>) =>
+      `{${Object.entries(values).map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+    const histogram = (name: string, values: Record<string, string>, data: Histogram) => {
+      LATENCY_BUCKETS.forEach((bound, index) => {
+        lines.push(`${name}_bucket${labels({ ...values, le: String(bound) })} ${data.buckets[index]}`);
+      });
+      lines.push(`${name}_bucket${labels({ ...values, le: '+Inf' })} ${data.count}`);
+      lines.push(`${name}_sum${labels(values)} ${data.sumSeconds}`);
+      lines.push(`${name}_count${labels(values)} ${data.count}`);
+    };
+
+    metric('expert_tool_calls_total', 'counter', 'Tool calls answered, including failed ones');
+    for (const [tool, metrics] of this.tools) {
+      lines.push(`expert_tool_calls_total${labels({ tool })} ${metrics.calls}`);
+    }
+    metric('expert_tool_errors_total', 'counter', 'Failed tool calls by error code');
+    for (const [tool, metrics] of this.tools) {
+      for (const [code, count] of Object.entries(metrics.errors)) {
+        lines.push(`expert_tool_errors_total${labels({ tool, code })} ${count}`);
+      }
+    }
+    metric('expert_tool_duration_seconds', 'histogram', 'Time taken to answer tool calls');
+    for (const [tool, metrics] of this.tools) {
+      histogram('expert_tool_duration_seconds', { tool }, metrics.latency);
+    }
+
+    metric('expert_model_requests_total', 'counter', 'Successful model requests');
+    for (const [model, metrics] of this.models) {
+      lines.push(`expert_model_requests_total${labels({ model })} ${metrics.requests}`);
+    }
+    metric('expert_model_errors_total', 'counter', 'Failed model requests by error code, including retried ones');
+    for (const [model, metrics] of this.models) {
+      for (const [code, count] of Object.entries(metrics.errors)) {
+        lines.push(`expert_model_errors_total${labels({ model, code })} ${count}`);
+      }
+    }
+    metric('expert_model_duration_seconds', 'histogram', 'Time taken by successful model requests');
+    for (const [model, metrics] of this.models) {
+      histogram('expert_model_duration_seconds', { model }, metrics.latency);
+    }
+    metric('expert_tokens_total', 'counter', 'Tokens used by model requests');
+    for (const [model, metrics] of this.models) {
+      lines.push(`expert_tokens_total${labels({ model, type: 'input' })} ${metrics.inputTokens}`);
+      lines.push(`expert_tokens_total${labels({ model, type: 'output' })} ${metrics.outputTokens}`);
+      lines.push(`expert_tokens_total${labels({ model, type: 'cache_creation' })} ${metrics.cacheCreationInputTokens}`);
+      lines.push(`expert_tokens_total${labels({ model, type: 'cache_read' })} ${metrics.cacheReadInputTokens}`);
+    }
+    metric('expert_estimated_cost_usd_total', 'counter', 'Estimated cost of model requests in US dollars');
+    for (const [model, metrics] of this.models) {
+      if (metrics.priced) {
+        lines.push(`expert_estimated_cost_usd_total${labels({ model })} ${metrics.costUsd}`);
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private getModelMetrics(model: string): ModelMetrics {
+    let metrics = this.models.get(model);
+    if (!metrics) {
+      metrics = {
+        requests: 0,
+        errors: {},
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+        costUsd: 0,
+        priced: false,
+        latency: createHistogram(),
+      };
+      this.models.set(model, metrics);
+    }
+    return metrics;
+  }
+
+  /**
+   * Finds the price of a model by exact name, then by the longest matching prefix
+   */
+  private getPrice(model: string): ModelPrice | undefined {
+    if (this.prices[model]) {
+      return this.prices[model];
+    }
+    const prefix = Object.keys(this.prices)
+      .filter(key => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.prices[prefix] : undefined;
+  }
+}
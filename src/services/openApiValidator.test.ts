@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { OpenApiValidator, parseOpenApiSpec } from './openApiValidator.js';
+
+const SPEC = `
+openapi: 3.0.0
+info:
+  title: Users
+  version: '1'
+servers:
+  - url: https://api.example.com/v1
+paths:
+  /users:
+    get:
+      summary: List users
+      parameters:
+        - name: limit
+          in: query
+          schema: { type: integer }
+        - name: role
+          in: query
+          schema: { $ref: '#/components/schemas/Role' }
+    post:
+      summary: Create a user
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: '#/components/schemas/NewUser' }
+  /users/{id}:
+    parameters:
+      - name: id
+        in: path
+        required: true
+        description: The user ID
+        schema: { type: integer }
+    get:
+      summary: Get a user
+  /users/me:
+    get:
+      summary: Get the current user
+components:
+  schemas:
+    Role:
+      type: string
+      enum: [admin, member]
+    NewUser:
+      type: object
+      required: [name]
+      properties:
+        name: { type: string }
+        tags:
+          type: array
+          items: { type: string }
+`;
+
+const SWAGGER = JSON.stringify({
+  swagger: '2.0',
+  host: 'legacy.example.com',
+  basePath: '/api',
+  schemes: ['http', 'https'],
+  paths: {
+    '/items': {
+      post: {
+        parameters: [
+          { name: 'body', in: 'body', required: true, schema: { type: 'object', required: ['sku'] } },
+          { name: 'dryRun', in: 'query', type: 'boolean' },
+        ],
+      },
+    },
+  },
+});
+
+function createValidator() {
+  return OpenApiValidator.fromDocumentation(new Map([['openapi.yaml', SPEC], ['notes.md', '# Notes']]))!;
+}
+
+describe('parseOpenApiSpec', () => {
+  it('reads endpoints with shared and resolved parameters', () => {
+    const spec = parseOpenApiSpec('openapi.yaml', SPEC)!;
+    expect(spec.title).toBe('Users');
+    expect(spec.serverUrl).toBe('https://api.example.com/v1');
+    expect(spec.basePaths).toEqual(['/v1']);
+    expect(spec.endpoints.map(endpoint => `${endpoint.method} ${endpoint.path}`))
+      .toEqual(['GET /users', 'POST /users', 'GET /users/{id}', 'GET /users/me']);
+    expect(spec.endpoints[2].parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'integer' }, description: 'The user ID' },
+    ]);
+  });
+
+  it('reads Swagger 2 body parameters, host and base path', () => {
+    const spec = parseOpenApiSpec('swagger.json', SWAGGER)!;
+    expect(spec.serverUrl).toBe('https://legacy.example.com/api');
+    expect(spec.endpoints[0].requestBody).toEqual({ required: true, schema: { type: 'object', required: ['sku'] } });
+    expect(spec.endpoints[0].parameters).toEqual([
+      { name: 'dryRun', in: 'query', required: false, schema: { type: 'boolean', enum: undefined }, description: undefined },
+    ]);
+  });
+
+  it('ignores files that are not OpenAPI documents', () => {
+    expect(parseOpenApiSpec('package.json', '{"name": "x"}')).toBeUndefined();
+    expect(parseOpenApiSpec('broken.json', '{')).toBeUndefined();
+  });
+});
+
+describe('OpenApiValidator', () => {
+  it('is only created when the documentation contains a spec', () => {
+    expect(OpenApiValidator.fromDocumentation(new Map([['notes.md', '# Notes']]))).toBeUndefined();
+  });
+
+  it('prefers literal path segments over templated ones', () => {
+    expect(createValidator().matchPath('/users/me').map(endpoint => endpoint.path)).toEqual(['/users/me', '/users/{id}']);
+  });
+
+  it('accepts valid requests, with or without the base path', () => {
+    const validator = createValidator();
+    expect(validator.validate('GET /users?limit=10&role=admin')).toEqual({
+      validator: 'OpenAPI', valid: true, errors: [], target: 'GET /users',
+    });
+    expect(validator.validate('GET /v1/users/42')?.valid).toBe(true);
+  });
+
+  it('reports unknown paths, methods and parameters', () => {
+    const validator = createValidator();
+    expect(validator.validate('GET /accounts')?.errors[0]).toMatch(/^Unknown path \/accounts/);
+    expect(validator.validate('DELETE /users')?.errors).toEqual(['Method DELETE is not allowed for /users. Allowed methods: GET, POST']);
+    expect(validator.validate('GET /users?limit=ten&role=owner&page=2')?.errors).toEqual([
+      'query parameter "limit" should be an integer but is "ten"',
+      'query parameter "role" must be one of admin, member',
+      'Unknown query parameter "page"',
+    ]);
+  });
+
+  it('validates request bodies against referenced schemas', () => {
+    const validator = createValidator();
+    expect(validator.validate('POST /users')?.errors).toEqual(['Missing required request body']);
+    expect(validator.validate('POST /users\n\n{"tags": ["a", 1]}')?.errors).toEqual([
+      'body.name is required',
+      'body.tags[1] should be string but is number',
+    ]);
+  });
+
+  it('reports URLs it cannot parse as validation failures', () => {
+    expect(createValidator().validate('curl https://<host>/v1/users')).toEqual({
+      validator: 'OpenAPI',
+      valid: false,
+      errors: ['Invalid URL https://<host>/v1/users: not a valid URL'],
+    });
+  });
+
+  it('ignores queries that are not HTTP requests', () => {
+    expect(createValidator().validate('query { users { id } }')).toBeUndefined();
+  });
+});
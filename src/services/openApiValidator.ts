@@ -0,0 +1,468 @@
+import { parse as parseYaml } from 'yaml';
+import { ParsedHttpRequest, QueryValidator, ValidationReport, parseHttpRequest } from './queryValidation.js';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * A JSON schema object from an OpenAPI document
+ */
+export type JsonSchema = JsonObject;
+
+/**
+ * Interface for an OpenAPI operation parameter
+ */
+export interface OpenApiParameter {
+  name: string;
+  in: string;
+  required: boolean;
+  schema?: JsonSchema;
+  description?: string;
+}
+
+/**
+ * Interface for a single method and path described by an OpenAPI document
+ */
+export interface OpenApiEndpoint {
+  method: string;
+  path: string;
+  pattern: RegExp;
+  parameters: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    schema?: JsonSchema;
+  };
+  summary?: string;
+  file: string;
+}
+
+/**
+ * Interface for an OpenAPI document reduced to its endpoints
+ */
+export interface OpenApiSpec {
+  file: string;
+  title?: string;
+  // The first absolute server URL, including any base path
+  serverUrl?: string;
+  basePaths: string[];
+  endpoints: OpenApiEndpoint[];
+}
+
+const OPERATION_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Checks whether a parsed JSON or YAML value is an object (not an array)
+ */
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Gets a value as an array, or an empty array for anything else
+ */
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Gets a value as a string, or undefined for anything else
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Resolves a local `$ref` pointer within a document
+ * @returns The referenced object, or undefined if the value does not resolve to an object
+ */
+function resolveRef(root: unknown, value: unknown, seen: Set<string> = new Set()): JsonObject | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+  if (typeof value.$ref !== 'string') {
+    return value;
+  }
+  const ref = value.$ref;
+  if (!ref.startsWith('#/') || seen.has(ref)) {
+    return {};
+  }
+  seen.add(ref);
+  const target = ref.slice(2).split('/').reduce<unknown>((node, part) => {
+    const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+    return isObject(node) ? node[key] : undefined;
+  }, root);
+  return resolveRef(root, target, seen);
+}
+
+/**
+ * Parses a JSON or YAML file, returning undefined if it is malformed
+ */
+function parseDocument(file: string, content: string): unknown {
+  try {
+    return /\.ya?ml$/i.test(file) ? parseYaml(content) : JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds a regular expression matching concrete paths for a path template
+ */
+function templateToPattern(path: string): RegExp {
+  const escaped = path
+    .split(/(\{[^}]+\})/)
+    .map(part => part.startsWith('{') ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${escaped.replace(/\/$/, '')}/?$`);
+}
+
+/**
+ * Parses a JSON or YAML file into an OpenAPI model
+ * @param file - The documentation file name
+ * @param content - The file contents
+ * @returns The parsed spec, or undefined if the file is not an OpenAPI document
+ */
+export function parseOpenApiSpec(file: string, content: string): OpenApiSpec | undefined {
+  const document = parseDocument(file, content);
+  if (!isObject(document) || !(document.openapi || document.swagger) || !isObject(document.paths)) {
+    return undefined;
+  }
+
+  const basePaths: string[] = [];
+  let serverUrl: string | undefined;
+  if (typeof document.basePath === 'string' && document.basePath !== '/') {
+    basePaths.push(document.basePath.replace(/\/$/, ''));
+  }
+  if (typeof document.host === 'string') {
+    const schemes = asArray(document.schemes);
+    const scheme = schemes.includes('https') ? 'https' : asString(schemes[0]) || 'https';
+    serverUrl = `${scheme}://${document.host}${basePaths[0] || ''}`;
+  }
+  for (const server of asArray(document.servers)) {
+    const url = isObject(server) ? asString(server.url) : undefined;
+    if (!url) {
+      continue;
+    }
+    if (!serverUrl && /^https?:\/\/[^{}]+$/.test(url)) {
+      serverUrl = url.replace(/\/$/, '');
+    }
+    try {
+      const pathname = new URL(url, 'http://placeholder').pathname.replace(/\/$/, '');
+      if (pathname && !basePaths.includes(pathname)) {
+        basePaths.push(pathname);
+      }
+    } catch {
+      // Ignore server URLs with unresolved variables
+    }
+  }
+
+  const endpoints: OpenApiEndpoint[] = [];
+  for (const [path, rawItem] of Object.entries(document.paths)) {
+    const pathItem = resolveRef(document, rawItem) || {};
+    const sharedParameters = asArray(pathItem.parameters);
+
+    for (const method of OPERATION_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) {
+        continue;
+      }
+
+      const parameters = new Map<string, OpenApiParameter>();
+      let requestBody: OpenApiEndpoint['requestBody'];
+      for (const rawParameter of [...sharedParameters, ...asArray(operation.parameters)]) {
+        const parameter = resolveRef(document, rawParameter);
+        const name = asString(parameter?.name);
+        const location = asString(parameter?.in);
+        if (!parameter || !name || !location) {
+          continue;
+        }
+        const schema = isObject(parameter.schema) ? parameter.schema : undefined;
+        if (location === 'body') {
+          // Swagger 2 describes the request body as a parameter
+          requestBody = { required: Boolean(parameter.required), schema };
+          continue;
+        }
+        parameters.set(`${location}:${name}`, {
+          name,
+          in: location,
+          required: location === 'path' || Boolean(parameter.required),
+          schema: schema || (parameter.type ? { type: parameter.type, enum: parameter.enum } : undefined),
+          description: asString(parameter.description),
+        });
+      }
+
+      const body = resolveRef(document, operation.requestBody);
+      if (body) {
+        const content = isObject(body.content) ? body.content : {};
+        const media = content['application/json'] ?? Object.values(content)[0];
+        const schema = isObject(media) && isObject(media.schema) ? media.schema : undefined;
+        requestBody = { required: Boolean(body.required), schema };
+      }
+
+      endpoints.push({
+        method: method.toUpperCase(),
+        path,
+        pattern: templateToPattern(path),
+        parameters: Array.from(parameters.values()),
+        requestBody,
+        summary: asString(operation.summary),
+        file,
+      });
+    }
+  }
+
+  const title = isObject(document.info) ? asString(document.info.title) : undefined;
+  return { file, title, serverUrl, basePaths, endpoints };
+}
+
+/**
+ * Checks a value against a JSON schema, collecting readable errors
+ */
+function validateSchema(root: unknown, value: unknown, rawSchema: unknown, at: string, errors: string[], depth = 0): void {
+  const schema = resolveRef(root, rawSchema);
+  if (!schema || depth > 20) {
+    return;
+  }
+
+  for (const part of asArray(schema.allOf)) {
+    validateSchema(root, value, part, at, errors, depth + 1);
+  }
+  for (const key of ['anyOf', 'oneOf']) {
+    const parts = schema[key];
+    if (Array.isArray(parts)) {
+      const matches = parts.some((part) => {
+        const partErrors: string[] = [];
+        validateSchema(root, value, part, at, partErrors, depth + 1);
+        return partErrors.length === 0;
+      });
+      if (!matches) {
+        errors.push(`${at} does not match any of the allowed schemas`);
+      }
+    }
+  }
+
+  if (value === null) {
+    if (!schema.nullable && schema.type && schema.type !== 'null') {
+      errors.push(`${at} must not be null`);
+    }
+    return;
+  }
+
+  const actual = Array.isArray(value) ? 'array' : typeof value;
+  const type = schema.type;
+  if (type) {
+    const types = (Array.isArray(type) ? type : [type]).map(String);
+    const ok = types.some(expected =>
+      expected === actual ||
+      (expected === 'integer' && typeof value === 'number' && Number.isInteger(value)) ||
+      (expected === 'number' && typeof value === 'number'));
+    if (!ok) {
+      errors.push(`${at} should be ${types.join(' or ')} but is ${actual}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push(`${at} must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validateSchema(root, item, schema.items, `${at}[${i}]`, errors, depth + 1));
+  }
+
+  if (actual === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    for (const name of asArray(schema.required)) {
+      if (typeof name === 'string' && record[name] === undefined) {
+        errors.push(`${at}.${name} is required`);
+      }
+    }
+    for (const [name, item] of Object.entries(record)) {
+      if (properties[name]) {
+        validateSchema(root, item, properties[name], `${at}.${name}`, errors, depth + 1);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at}.${name} is not an allowed property`);
+      }
+    }
+  }
+}
+
+/**
+ * Checks a string parameter value against a simple parameter schema
+ */
+function validateParameterValue(value: string, schema: JsonObject | undefined, at: string, errors: string[]): void {
+  if (!schema) {
+    return;
+  }
+  if (schema.type === 'integer' && !/^-?\d+$/.test(value)) {
+    errors.push(`${at} should be an integer but is "${value}"`);
+  } else if (schema.type === 'number' && isNaN(Number(value))) {
+    errors.push(`${at} should be a number but is "${value}"`);
+  } else if (schema.type === 'boolean' && !['true', 'false'].includes(value)) {
+    errors.push(`${at} should be a boolean but is "${value}"`);
+  } else if (Array.isArray(schema.enum) && !schema.enum.map(String).includes(value)) {
+    errors.push(`${at} must be one of ${schema.enum.join(', ')}`);
+  }
+}
+
+/**
+ * Validates generated HTTP requests against OpenAPI documents
+ */
+export class OpenApiValidator implements QueryValidator {
+  readonly name = 'OpenAPI';
+
+  /**
+   * Creates a new instance of OpenApiValidator
+   * @param specs - The parsed OpenAPI specs
+   * @param documents - The raw documents by file name, used to resolve schema references
+   */
+  constructor(private readonly specs: OpenApiSpec[], private readonly documents: Map<string, unknown>) {}
+
+  /**
+   * Builds a validator from the loaded documentation files
+   * @param documentation - Map of file names to file contents
+   * @returns The validator, or undefined if no OpenAPI documents were found
+   */
+  static fromDocumentation(documentation: ReadonlyMap<string, string>): OpenApiValidator | undefined {
+    const specs: OpenApiSpec[] = [];
+    const documents = new Map<string, unknown>();
+    for (const [file, content] of documentation) {
+      if (!/\.(json|ya?ml)$/i.test(file)) {
+        continue;
+      }
+      const spec = parseOpenApiSpec(file, content);
+      if (spec) {
+        specs.push(spec);
+        documents.set(file, parseDocument(file, content));
+      }
+    }
+    return specs.length ? new OpenApiValidator(specs, documents) : undefined;
+  }
+
+  /**
+   * Gets the endpoints described by all loaded specs
+   * @returns Array of endpoints
+   */
+  getEndpoints(): OpenApiEndpoint[] {
+    return this.specs.flatMap(spec => spec.endpoints);
+  }
+
+  /**
+   * Finds the endpoints whose path template matches a concrete path,
+   * trying each spec's base paths
+   * @param path - The request path
+   * @returns Matching endpoints, most specific first
+   */
+  matchPath(path: string): OpenApiEndpoint[] {
+    const matches: OpenApiEndpoint[] = [];
+    for (const spec of this.specs) {
+      const candidates = [path, ...spec.basePaths
+        .filter(base => path.startsWith(base))
+        .map(base => path.slice(base.length) || '/')];
+      for (const endpoint of spec.endpoints) {
+        if (candidates.some(candidate => endpoint.pattern.test(candidate))) {
+          matches.push(endpoint);
+        }
+      }
+    }
+    // Literal segments beat templated ones, e.g. /users/me over /users/{id}
+    const templated = (endpoint: OpenApiEndpoint) => (endpoint.path.match(/\{/g) || []).length;
+    return matches.sort((a, b) => templated(a) - templated(b));
+  }
+
+  /**
+   * Gets the server URL of the spec describing an endpoint
+   * @param endpoint - An endpoint returned by this validator
+   * @returns The absolute server URL, or undefined if the spec names none
+   */
+  getServerUrl(endpoint: OpenApiEndpoint): string | undefined {
+    return this.specs.find(spec => spec.endpoints.includes(endpoint))?.serverUrl;
+  }
+
+  /**
+   * Finds the endpoint for a parsed request
+   * @param request - The parsed HTTP request
+   * @returns The endpoint, or undefined if none matches the method and path
+   */
+  findEndpoint(request: ParsedHttpRequest): OpenApiEndpoint | undefined {
+    return this.matchPath(request.path).find(endpoint => endpoint.method === request.method);
+  }
+
+  validate(query: string): ValidationReport | undefined {
+    const request = parseHttpRequest(query);
+    if (!request) {
+      return undefined;
+    }
+    return this.validateRequest(request);
+  }
+
+  /**
+   * Validates a parsed request against the matching endpoint
+   * @param request - The parsed HTTP request
+   * @returns The validation report
+   */
+  validateRequest(request: ParsedHttpRequest): ValidationReport {
+    const errors: string[] = [];
+    if (request.urlError) {
+      errors.push(request.urlError);
+      return { validator: this.name, valid: false, errors };
+    }
+    const target = `${request.method} ${request.path}`;
+    const matches = this.matchPath(request.path);
+
+    if (matches.length === 0) {
+      errors.push(`Unknown path ${request.path}. Known paths: ${Array.from(new Set(this.getEndpoints().map(endpoint => endpoint.path))).join(', ')}`);
+      return { validator: this.name, valid: false, errors, target };
+    }
+
+    const endpoint = matches.find(candidate => candidate.method === request.method);
+    if (!endpoint) {
+      const allowed = Array.from(new Set(matches.map(candidate => candidate.method)));
+      errors.push(`Method ${request.method} is not allowed for ${matches[0].path}. Allowed methods: ${allowed.join(', ')}`);
+      return { validator: this.name, valid: false, errors, target };
+    }
+
+    for (const parameter of endpoint.parameters) {
+      let value: string | undefined;
+      if (parameter.in === 'query') {
+        value = request.query[parameter.name];
+      } else if (parameter.in === 'header') {
+        value = request.headers[parameter.name.toLowerCase()];
+      } else {
+        continue;
+      }
+      if (value === undefined) {
+        if (parameter.required) {
+          errors.push(`Missing required ${parameter.in} parameter "${parameter.name}"`);
+        }
+        continue;
+      }
+      validateParameterValue(value, resolveRef(this.documents.get(endpoint.file), parameter.schema),
+        `${parameter.in} parameter "${parameter.name}"`, errors);
+    }
+
+    const knownQuery = new Set(endpoint.parameters.filter(parameter => parameter.in === 'query').map(parameter => parameter.name));
+    for (const name of Object.keys(request.query)) {
+      if (!knownQuery.has(name)) {
+        errors.push(`Unknown query parameter "${name}"`);
+      }
+    }
+
+    if (endpoint.requestBody) {
+      if (request.body === undefined) {
+        if (endpoint.requestBody.required) {
+          errors.push('Missing required request body');
+        }
+      } else {
+        validateSchema(this.documents.get(endpoint.file), request.body, endpoint.requestBody.schema, 'body', errors);
+      }
+    }
+
+    return {
+      validator: this.name,
+      valid: errors.length === 0,
+      errors,
+      target: `${endpoint.method} ${endpoint.path}`,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { loadPromptTemplates, parsePromptTemplate, renderPromptTemplate } from './promptTemplates.js';
+
+const TEMPLATE = `---
+name: paginated-query
+description: Write a paginated query for a resource
+argument: resource (required) - The resource to list
+argument: pageSize - Number of items per page
+argument: not valid!
+---
+Write a query that lists {{resource}} with {{ pageSize }} items per page.
+`;
+
+describe('parsePromptTemplate', () => {
+  it('reads the name, description and arguments from the header', () => {
+    expect(parsePromptTemplate('paginate.md', TEMPLATE)).toEqual({
+      name: 'paginated-query',
+      description: 'Write a paginated query for a resource',
+      arguments: [
+        { name: 'resource', required: true, description: 'The resource to list' },
+        { name: 'pageSize', required: false, description: 'Number of items per page' },
+      ],
+      body: 'Write a query that lists {{resource}} with {{ pageSize }} items per page.',
+      file: 'paginate.md',
+    });
+  });
+
+  it('uses the file name and whole content without a header', () => {
+    expect(parsePromptTemplate('explain.txt', '  Explain {{topic}}.\n')).toMatchObject({
+      name: 'explain',
+      arguments: [],
+      body: 'Explain {{topic}}.',
+    });
+  });
+});
+
+describe('renderPromptTemplate', () => {
+  const template = parsePromptTemplate('paginate.md', TEMPLATE);
+
+  it('fills in arguments, leaving missing optional ones empty', () => {
+    expect(renderPromptTemplate(template, { resource: 'users' })).toBe('Write a query that lists users with  items per page.');
+  });
+
+  it('rejects missing required arguments', () => {
+    expect(() => renderPromptTemplate(template, { pageSize: '10' }))
+      .toThrow('Missing required arguments for prompt paginated-query: resource');
+  });
+});
+
+describe('loadPromptTemplates', () => {
+  it('loads .md and .txt files, skipping duplicates and other files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'expert-templates-'));
+    try {
+      writeFileSync(join(dir, 'a.md'), TEMPLATE);
+      writeFileSync(join(dir, 'b.txt'), TEMPLATE);
+      writeFileSync(join(dir, 'explain.txt'), 'Explain {{topic}}.');
+      writeFileSync(join(dir, 'notes.json'), '{}');
+      writeFileSync(join(dir, '.hidden.md'), 'Hidden');
+      const templates = loadPromptTemplates(dir);
+      expect(Array.from(templates.keys()).sort()).toEqual(['explain', 'paginated-query']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('returns no templates for a missing directory', () => {
+    expect(loadPromptTemplates(join(tmpdir(), 'expert-no-such-dir')).size).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join } from 'path';
+import { debugLog } from '../logger.js';
+
+/**
+ * Interface for an argument accepted by a prompt template
+ */
+export interface PromptTemplateArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+/**
+ * Interface for a prompt template loaded from the templates directory
+ */
+export interface PromptTemplate {
+  name: string;
+  description?: string;
+  arguments: PromptTemplateArgument[];
+  body: string;
+  file: string;
+}
+
+/**
+ * Parses a prompt template file.
+ *
+ * Templates start with a header between `---` lines, followed by the body:
+ *
+ *   ---
+ *   name: paginated-query
+ *   description: Write a paginated query for a resource
+ *   argument: resource (required) - The resource to list
+ *   argument: pageSize - Number of items per page
+ *   ---
+ *   Write a query that lists {{resource}} with {{pageSize}} items per page.
+ *
+ * @param file - The template file name, used as the default name
+ * @param content - The file contents
+ * @returns The parsed template
+ */
+export function parsePromptTemplate(file: string, content: string): PromptTemplate {
+  const template: PromptTemplate = {
+    name: file.replace(/\.[^.]+$/, ''),
+    arguments: [],
+    body: content.trim(),
+    file,
+  };
+
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(content);
+  if (!match) {
+    return template;
+  }
+
+  template.body = match[2].trim();
+  for (const line of match[1].split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (key === 'name' && value) {
+      template.name = value;
+    } else if (key === 'description') {
+      template.description = value;
+    } else if (key === 'argument') {
+      const argument = /^([\w-]+)\s*(\(required\))?\s*(?:-\s*(.*))?$/.exec(value);
+      if (argument) {
+        template.arguments.push({
+          name: argument[1],
+          required: Boolean(argument[2]),
+          description: argument[3] || undefined,
+        });
+      } else {
+        debugLog(`Ignoring malformed argument in prompt template ${file}: ${value}`);
+      }
+    }
+  }
+
+  return template;
+}
+
+/**
+ * Loads all prompt templates from a directory
+ * @param templatesDir - Directory containing `.md` or `.txt` template files
+ * @returns Map of template names to templates
+ */
+export function loadPromptTemplates(templatesDir: string): Map<string, PromptTemplate> {
+  const templates = new Map<string, PromptTemplate>();
+  if (!existsSync(templatesDir)) {
+    return templates;
+  }
+
+  try {
+    const files = readdirSync(templatesDir)
+      .filter(file => !file.startsWith('.') && (file.endsWith('.md') || file.endsWith('.txt')));
+
+    for (const file of files) {
+      try {
+        const template = parsePromptTemplate(file, readFileSync(join(templatesDir, file), 'utf-8'));
+        if (templates.has(template.name)) {
+          debugLog(`Duplicate prompt template name "${template.name}" in ${file}, skipping`);
+          continue;
+        }
+        templates.set(template.name, template);
+        debugLog(`Successfully loaded prompt template ${template.name} from ${file}`);
+      } catch (error) {
+        debugLog(`Failed to load prompt template ${file}: ${error}`);
+      }
+    }
+  } catch (error) {
+    debugLog(`Failed to read prompt templates directory ${templatesDir}: ${error}`);
+  }
+
+  return templates;
+}
+
+/**
+ * Fills in a template body with argument values
+ * @param template - The prompt template
+ * @param args - Argument values by name
+ * @returns The rendered body
+ */
+export function renderPromptTemplate(template: PromptTemplate, args: Record<string, string>): string {
+  const missing = template.arguments
+    .filter(argument => argument.required && !args[argument.name])
+    .map(argument => argument.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required arguments for prompt ${template.name}: ${missing.join(', ')}`);
+  }
+
+  return template.body.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_, name: string) => args[name] ?? '');
+}
@@ -0,0 +1,68 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LogEntry, addLogSink } from '../../logger.js';
+import { AnthropicProvider } from './anthropicProvider.js';
+import { RateLimitError } from '../errors.js';
+
+let server: Server;
+let requests: Record<string, unknown>[];
+let status: number;
+
+beforeEach(async () => {
+  requests = [];
+  status = 200;
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push(JSON.parse(body));
+      res.writeHead(status, { 'Content-Type': 'application/json', 'retry-after': '7' });
+      res.end(JSON.stringify(status === 200
+        ? { id: 'msg_1', type: 'message', role: 'assistant', model: 'm', content: [{ type: 'text', text: 'ok' }], stop_reason: 'end_turn', usage: { input_tokens: 1, output_tokens: 1 } }
+        : { type: 'error', error: { type: 'rate_limit_error', message: 'Slow down' } }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  delete process.env.ANTHROPIC_BASE_URL;
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('AnthropicProvider', () => {
+  it('sends system blocks with their cache markers', async () => {
+    const provider = new AnthropicProvider('test-key');
+    const response = await provider.createMessage({
+      model: 'm',
+      max_tokens: 10,
+      system: [{ type: 'text', text: 'Instructions' }, { type: 'text', text: 'Docs', cache_control: { type: 'ephemeral' } }],
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    expect(response.content[0].text).toBe('ok');
+    expect(requests[0].system).toEqual([
+      { type: 'text', text: 'Instructions' },
+      { type: 'text', text: 'Docs', cache_control: { type: 'ephemeral' } },
+    ]);
+  });
+
+  it('maps API errors to expert errors', async () => {
+    status = 429;
+    const provider = new AnthropicProvider('test-key');
+    await expect(provider.createMessage({ model: 'm', max_tokens: 10, messages: [{ role: 'user', content: 'Hi' }] }))
+      .rejects.toSatisfy(error => error instanceof RateLimitError && error.retryAfterMs === 7000);
+  });
+
+  it('reports a missing API key through the logger', () => {
+    const entries: LogEntry[] = [];
+    const removeSink = addLogSink(entry => entries.push(entry));
+    try {
+      expect(() => new AnthropicProvider('')).toThrow('ANTHROPIC_API_KEY environment variable is required');
+    } finally {
+      removeSink();
+    }
+    expect(entries).toMatchObject([{ level: 'error', message: 'The ANTHROPIC_API_KEY environment variable is missing or not set.' }]);
+  });
+});
@@ -0,0 +1,57 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ClaudeContent, ClaudeResponse, CompletionOptions, CompletionParams, LLMProvider } from './llmProvider.js';
+import { NetworkError, errorFromStatus } from '../errors.js';
+import { errorLog } from '../../logger.js';
+
+/**
+ * Converts system prompt blocks to the API's text blocks, keeping their cache markers
+ */
+function toSystemBlocks(system: string | ClaudeContent[] | undefined): string | Anthropic.TextBlockParam[] | undefined {
+  if (system === undefined || typeof system === 'string') {
+    return system;
+  }
+  return system.map(block => ({ type: 'text', text: block.text || '', cache_control: block.cache_control }));
+}
+
+/**
+ * Provider that sends completions to the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private anthropic: Anthropic;
+
+  /**
+   * Creates a new instance of AnthropicProvider
+   * @param apiKey - The Anthropic API key
+   */
+  constructor(apiKey?: string) {
+    if (!apiKey) {
+      errorLog('The ANTHROPIC_API_KEY environment variable is missing or not set.');
+      throw new Error('ANTHROPIC_API_KEY environment variable is required for the Anthropic provider.');
+    }
+    // Retries are handled by ExpertService so they follow its backoff and timeout
+    this.anthropic = new Anthropic({ apiKey, maxRetries: 0 });
+  }
+
+  async createMessage(params: CompletionParams, options?: CompletionOptions): Promise<ClaudeResponse> {
+    try {
+      const response = await this.anthropic.messages.create({
+        ...params,
+        system: toSystemBlocks(params.system),
+        messages: params.messages as Anthropic.MessageParam[],
+      }, { signal: options?.signal });
+      return response as ClaudeResponse;
+    } catch (error) {
+      if (error instanceof Anthropic.APIUserAbortError) {
+        throw error;
+      }
+      if (error instanceof Anthropic.APIConnectionError) {
+        throw new NetworkError(`Could not reach the Anthropic API: ${error.message}`, error);
+      }
+      if (error instanceof Anthropic.APIError && error.status !== undefined) {
+        throw errorFromStatus(error.status, `Anthropic API error ${error.status}: ${error.message}`, error.headers?.['retry-after'], error);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { AnthropicProvider } from './anthropicProvider.js';
+import { LLMProvider } from './llmProvider.js';
+import { MockProvider } from './mockProvider.js';
+import { OpenAICompatibleProvider } from './openAiProvider.js';
+
+export * from './llmProvider.js';
+export { AnthropicProvider } from './anthropicProvider.js';
+export { OpenAICompatibleProvider } from './openAiProvider.js';
+export { MockProvider, MockRule } from './mockProvider.js';
+export { SamplingProvider } from './samplingProvider.js';
+export { RecordingProvider, ReplayProvider, recordingKey } from './recordingProvider.js';
+
+export type ProviderType = 'anthropic' | 'openai' | 'mock';
+
+/**
+ * Configuration for choosing a model provider
+ */
+export interface ProviderConfig {
+  type?: ProviderType;
+  apiKey?: string;
+  baseUrl?: string;
+  mockResponsesFile?: string;
+}
+
+/**
+ * Creates the configured provider. Unset values fall back to the
+ * EXPERT_PROVIDER, ANTHROPIC_API_KEY, OPENAI_BASE_URL, OPENAI_API_KEY and
+ * EXPERT_MOCK_RESPONSES environment variables.
+ * @param config - Provider configuration
+ * @returns The provider instance
+ */
+export function createProvider(config?: ProviderConfig): LLMProvider {
+  const type = config?.type || process.env.EXPERT_PROVIDER || 'anthropic';
+
+  switch (type) {
+    case 'anthropic':
+      return new AnthropicProvider(config?.apiKey || process.env.ANTHROPIC_API_KEY);
+    case 'openai': {
+      const baseUrl = config?.baseUrl || process.env.OPENAI_BASE_URL;
+      if (!baseUrl) {
+        throw new Error('A base URL (--base-url or OPENAI_BASE_URL) is required for the openai provider.');
+      }
+      return new OpenAICompatibleProvider(baseUrl, config?.apiKey || process.env.OPENAI_API_KEY);
+    }
+    case 'mock': {
+      const file = config?.mockResponsesFile || process.env.EXPERT_MOCK_RESPONSES;
+      return file ? MockProvider.fromFile(file) : new MockProvider();
+    }
+    default:
+      throw new Error(`Unknown provider: ${type}. Expected one of anthropic, openai, mock.`);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Interface for Claude message content
+ */
+export interface ClaudeContent {
+  type: 'text' | 'image';
+  text?: string;
+  source?: {
+    type: 'base64' | 'url';
+    media_type: string;
+    data: string;
+  };
+  cache_control?: { type: 'ephemeral' };
+}
+
+/**
+ * Interface for Claude message
+ */
+export interface ClaudeMessage {
+  role: 'user' | 'assistant';
+  content: string | Array<ClaudeContent>;
+}
+
+/**
+ * Interface for Claude API response
+ */
+export interface ClaudeResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: Array<ClaudeContent>;
+  stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence';
+  stop_sequence?: string;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+/**
+ * Parameters for a single completion request
+ */
+export interface CompletionParams {
+  model: string;
+  max_tokens: number;
+  system?: string | Array<ClaudeContent>;
+  messages: ClaudeMessage[];
+  temperature?: number;
+}
+
+/**
+ * Per-request options for a completion
+ */
+export interface CompletionOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Flattens message or system content to plain text, for backends that
+ * do not accept content blocks
+ * @param content - The content to flatten
+ * @returns The concatenated text
+ */
+export function contentText(content: string | Array<ClaudeContent>): string {
+  return typeof content === 'string' ? content : content.map(part => part.text || '').join('');
+}
+
+/**
+ * Interface implemented by every model backend used by ExpertService.
+ * Responses use the Claude message shape regardless of the backend.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  /**
+   * Sends a completion request to the model. Failures should be reported
+   * as typed errors from `../errors.js` where the cause is known.
+   * @param params - The completion parameters
+   * @param options - Optional signal that aborts the request
+   * @returns The model response
+   */
+  createMessage(params: CompletionParams, options?: CompletionOptions): Promise<ClaudeResponse>;
+}
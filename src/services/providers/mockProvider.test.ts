@@ -0,0 +1,67 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { MockProvider, createProvider } from './index.js';
+import { CompletionParams } from './llmProvider.js';
+
+function params(prompt: string): CompletionParams {
+  return { model: 'm', max_tokens: 10, messages: [{ role: 'assistant', content: 'earlier' }, { role: 'user', content: prompt }] };
+}
+
+async function reply(provider: MockProvider, prompt: string): Promise<string | undefined> {
+  return (await provider.createMessage(params(prompt))).content[0].text;
+}
+
+describe('MockProvider', () => {
+  it('prefers matching rules, then uses unmatched rules in order, then the default', async () => {
+    const provider = new MockProvider([
+      { response: 'first' },
+      { match: '/list (users|orders)/i', response: 'GET /users' },
+      { response: 'second' },
+      { match: 'HTTP 404', response: 'GET /v2/users' },
+    ], 'default');
+
+    expect(await reply(provider, 'List users please')).toBe('GET /users');
+    expect(await reply(provider, 'It failed (HTTP 404 Not Found)')).toBe('GET /v2/users');
+    expect(await reply(provider, 'anything')).toBe('first');
+    expect(await reply(provider, 'anything')).toBe('second');
+    expect(await reply(provider, 'anything')).toBe('default');
+    expect(provider.calls).toHaveLength(5);
+  });
+
+  it('loads rules from a JSON file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'expert-mock-'));
+    try {
+      const file = join(dir, 'responses.json');
+      writeFileSync(file, JSON.stringify([{ match: 'users', response: 'GET /users' }]));
+      expect(await reply(MockProvider.fromFile(file), 'list users')).toBe('GET /users');
+
+      writeFileSync(file, '{"match": "users"}');
+      expect(() => MockProvider.fromFile(file)).toThrow('must contain an array of rules');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('createProvider', () => {
+  it('creates the configured provider', () => {
+    expect(createProvider({ type: 'mock' }).name).toBe('mock');
+    expect(createProvider({ type: 'openai', baseUrl: 'http://localhost:8080/v1' }).name).toBe('openai');
+  });
+
+  it('rejects unknown provider types from the environment', () => {
+    const previous = process.env.EXPERT_PROVIDER;
+    process.env.EXPERT_PROVIDER = 'carrier-pigeon';
+    try {
+      expect(() => createProvider()).toThrow('Unknown provider: carrier-pigeon');
+    } finally {
+      if (previous === undefined) {
+        delete process.env.EXPERT_PROVIDER;
+      } else {
+        process.env.EXPERT_PROVIDER = previous;
+      }
+    }
+  });
+});
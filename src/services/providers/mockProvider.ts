@@ -0,0 +1,84 @@
+import { readFileSync } from 'fs';
+import { ClaudeResponse, CompletionParams, LLMProvider, contentText } from './llmProvider.js';
+
+/**
+ * A scripted response. When `match` is set, the response is used for any
+ * request whose last user message contains the string (or matches the
+ * regular expression written as `/pattern/flags`).
+ */
+export interface MockRule {
+  match?: string;
+  response: string;
+}
+
+/**
+ * Deterministic provider for tests and offline runs. Rules with a `match`
+ * are checked first; otherwise unmatched rules are used in order, and the
+ * default response is returned once they run out.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly calls: CompletionParams[] = [];
+  private sequenceIndex = 0;
+
+  /**
+   * Creates a new instance of MockProvider
+   * @param rules - Scripted responses
+   * @param defaultResponse - Response used when no rule applies
+   */
+  constructor(private readonly rules: MockRule[] = [], private readonly defaultResponse = 'Mock response') {}
+
+  /**
+   * Loads scripted responses from a JSON file containing an array of rules
+   * @param path - Path to the JSON file
+   * @returns The provider
+   */
+  static fromFile(path: string): MockProvider {
+    const rules = JSON.parse(readFileSync(path, 'utf-8'));
+    if (!Array.isArray(rules)) {
+      throw new Error(`Mock responses file ${path} must contain an array of rules`);
+    }
+    return new MockProvider(rules);
+  }
+
+  async createMessage(params: CompletionParams): Promise<ClaudeResponse> {
+    this.calls.push(params);
+    const text = this.pickResponse(params);
+    return {
+      id: `mock-${this.calls.length}`,
+      type: 'message',
+      role: 'assistant',
+      model: params.model,
+      content: [{ type: 'text', text }],
+      stop_reason: 'end_turn',
+      usage: {
+        input_tokens: 0,
+        output_tokens: 0,
+      },
+    };
+  }
+
+  /**
+   * Chooses the scripted response for a request
+   */
+  private pickResponse(params: CompletionParams): string {
+    const lastUser = [...params.messages].reverse().find(message => message.role === 'user');
+    const prompt = lastUser ? contentText(lastUser.content) : '';
+
+    for (const rule of this.rules) {
+      if (rule.match === undefined) {
+        continue;
+      }
+      const regex = /^\/(.*)\/([a-z]*)$/.exec(rule.match);
+      if (regex ? new RegExp(regex[1], regex[2]).test(prompt) : prompt.includes(rule.match)) {
+        return rule.response;
+      }
+    }
+
+    const sequence = this.rules.filter(rule => rule.match === undefined);
+    if (this.sequenceIndex < sequence.length) {
+      return sequence[this.sequenceIndex++].response;
+    }
+    return this.defaultResponse;
+  }
+}
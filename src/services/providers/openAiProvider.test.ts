@@ -0,0 +1,75 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { OpenAICompatibleProvider } from './openAiProvider.js';
+import { AuthenticationError, NetworkError } from '../errors.js';
+
+let server: Server;
+let baseUrl: string;
+let requests: { url?: string; authorization?: string; body: Record<string, unknown> }[];
+let status: number;
+
+beforeEach(async () => {
+  requests = [];
+  status = 200;
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(body) });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(status === 200
+        ? JSON.stringify({
+          id: 'chatcmpl-1',
+          model: 'local',
+          choices: [{ message: { content: 'GET /users' }, finish_reason: 'length' }],
+          usage: { prompt_tokens: 12, completion_tokens: 3 },
+        })
+        : 'invalid key');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('OpenAICompatibleProvider', () => {
+  it('sends the system prompt and messages as chat messages', async () => {
+    const provider = new OpenAICompatibleProvider(baseUrl, 'local-key');
+    const response = await provider.createMessage({
+      model: 'local',
+      max_tokens: 50,
+      system: [{ type: 'text', text: 'Instructions. ' }, { type: 'text', text: 'Docs', cache_control: { type: 'ephemeral' } }],
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'List users' }] }],
+    });
+
+    expect(requests[0]).toMatchObject({
+      url: '/v1/chat/completions',
+      authorization: 'Bearer local-key',
+      body: {
+        model: 'local',
+        max_tokens: 50,
+        messages: [{ role: 'system', content: 'Instructions. Docs' }, { role: 'user', content: 'List users' }],
+      },
+    });
+    expect(response).toMatchObject({
+      content: [{ type: 'text', text: 'GET /users' }],
+      stop_reason: 'max_tokens',
+      usage: { input_tokens: 12, output_tokens: 3 },
+    });
+  });
+
+  it('maps failures to expert errors', async () => {
+    status = 401;
+    const provider = new OpenAICompatibleProvider(baseUrl);
+    await expect(provider.createMessage({ model: 'local', max_tokens: 5, messages: [{ role: 'user', content: 'Hi' }] }))
+      .rejects.toBeInstanceOf(AuthenticationError);
+
+    const unreachable = new OpenAICompatibleProvider('http://127.0.0.1:1/v1');
+    await expect(unreachable.createMessage({ model: 'local', max_tokens: 5, messages: [{ role: 'user', content: 'Hi' }] }))
+      .rejects.toBeInstanceOf(NetworkError);
+  });
+});
@@ -0,0 +1,87 @@
+import { ClaudeResponse, CompletionOptions, CompletionParams, LLMProvider, contentText } from './llmProvider.js';
+import { NetworkError, errorFromStatus } from '../errors.js';
+
+/**
+ * Interface for the parts of an OpenAI chat completion response that are used
+ */
+interface ChatCompletionResponse {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+/**
+ * Provider for OpenAI-compatible chat completion endpoints, such as
+ * llama.cpp, vLLM or Ollama servers
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  /**
+   * Creates a new instance of OpenAICompatibleProvider
+   * @param baseUrl - Base URL of the API, e.g. http://localhost:8080/v1
+   * @param apiKey - Optional bearer token
+   */
+  constructor(private readonly baseUrl: string, private readonly apiKey?: string) {}
+
+  async createMessage(params: CompletionParams, options?: CompletionOptions): Promise<ClaudeResponse> {
+    const messages = [
+      ...(params.system ? [{ role: 'system', content: contentText(params.system) }] : []),
+      ...params.messages.map(message => ({
+        role: message.role,
+        content: contentText(message.content),
+      })),
+    ];
+
+    const url = `${this.baseUrl.replace(/\/$/, '')}/chat/completions`;
+    const response = await fetch(url, {
+      method: 'POST',
+      signal: options?.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: params.model,
+        max_tokens: params.max_tokens,
+        temperature: params.temperature,
+        messages,
+      }),
+    }).catch((error) => {
+      if (options?.signal?.aborted) {
+        throw error;
+      }
+      throw new NetworkError(`Could not reach ${url}: ${error instanceof Error ? error.message : error}`, error);
+    });
+
+    if (!response.ok) {
+      throw errorFromStatus(
+        response.status,
+        `OpenAI-compatible API request failed with status ${response.status}: ${await response.text()}`,
+        response.headers.get('retry-after')
+      );
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    const choice = data.choices?.[0];
+    return {
+      id: data.id || `chatcmpl-${Date.now()}`,
+      type: 'message',
+      role: 'assistant',
+      model: data.model || params.model,
+      content: choice?.message?.content ? [{ type: 'text', text: choice.message.content }] : [],
+      stop_reason: choice?.finish_reason === 'length' ? 'max_tokens' : 'end_turn',
+      usage: {
+        input_tokens: data.usage?.prompt_tokens || 0,
+        output_tokens: data.usage?.completion_tokens || 0,
+      },
+    };
+  }
+}
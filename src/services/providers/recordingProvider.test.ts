@@ -0,0 +1,59 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ProviderError } from '../errors.js';
+import { MockProvider } from './index.js';
+import { CompletionParams } from './llmProvider.js';
+import { RecordingProvider, ReplayProvider, recordingKey } from './recordingProvider.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-recording-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function params(prompt: string): CompletionParams {
+  return { model: 'm', max_tokens: 10, messages: [{ role: 'user', content: prompt }] };
+}
+
+describe('recordingKey', () => {
+  it('depends on the request content but not on other options', () => {
+    expect(recordingKey(params('a'))).toBe(recordingKey({ ...params('a'), stop_sequences: ['x'] } as CompletionParams));
+    expect(recordingKey(params('a'))).not.toBe(recordingKey(params('b')));
+    expect(recordingKey(params('a'))).not.toBe(recordingKey({ ...params('a'), temperature: 0.5 }));
+  });
+});
+
+describe('RecordingProvider', () => {
+  it('records responses that a ReplayProvider answers from the file', async () => {
+    const file = join(dir, 'recordings.json');
+    const recorder = new RecordingProvider(new MockProvider([{ match: 'users', response: 'GET /users' }], 'other'), file);
+    expect(recorder.name).toBe('mock');
+    await recorder.createMessage(params('list users'));
+    recorder.save();
+    expect(Object.keys(JSON.parse(readFileSync(file, 'utf-8')))).toEqual([recordingKey(params('list users'))]);
+
+    const replay = ReplayProvider.fromFile(file);
+    expect((await replay.createMessage(params('list users'))).content[0].text).toBe('GET /users');
+    await expect(replay.createMessage(params('list orders'))).rejects.toBeInstanceOf(ProviderError);
+  });
+
+  it('keeps existing recordings when recording more', async () => {
+    const file = join(dir, 'recordings.json');
+    const first = new RecordingProvider(new MockProvider([], 'first'), file);
+    await first.createMessage(params('a'));
+    first.save();
+    const second = new RecordingProvider(new MockProvider([], 'second'), file);
+    await second.createMessage(params('b'));
+    second.save();
+
+    const replay = ReplayProvider.fromFile(file);
+    expect((await replay.createMessage(params('a'))).content[0].text).toBe('first');
+    expect((await replay.createMessage(params('b'))).content[0].text).toBe('second');
+  });
+});
@@ -0,0 +1,93 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { ProviderError } from '../errors.js';
+import { hashContent } from '../responseCache.js';
+import { ClaudeResponse, CompletionOptions, CompletionParams, LLMProvider } from './llmProvider.js';
+
+/**
+ * Hashes the parts of a request that determine the response
+ * @param params - The completion parameters
+ * @returns Hex SHA-256 digest
+ */
+export function recordingKey(params: CompletionParams): string {
+  const { model, system, messages, max_tokens, temperature } = params;
+  return hashContent(JSON.stringify({ model, system, messages, max_tokens, temperature }));
+}
+
+/**
+ * Reads a recordings file written by RecordingProvider
+ * @param path - Path to the JSON file
+ * @returns Responses keyed by request hash
+ */
+function readRecordings(path: string): Record<string, ClaudeResponse> {
+  const recordings = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!recordings || typeof recordings !== 'object' || Array.isArray(recordings)) {
+    throw new Error(`Recordings file ${path} must contain an object of responses keyed by request hash`);
+  }
+  return recordings;
+}
+
+/**
+ * Passes requests to another provider and keeps each response, so a run
+ * can be replayed later without the model
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  private readonly recordings: Record<string, ClaudeResponse>;
+
+  /**
+   * Creates a new instance of RecordingProvider. Responses already in the
+   * file are kept unless the same request is recorded again.
+   * @param inner - The provider that answers requests
+   * @param path - File the responses are saved to
+   */
+  constructor(private readonly inner: LLMProvider, private readonly path: string) {
+    this.name = inner.name;
+    this.recordings = existsSync(path) ? readRecordings(path) : {};
+  }
+
+  async createMessage(params: CompletionParams, options?: CompletionOptions): Promise<ClaudeResponse> {
+    const response = await this.inner.createMessage(params, options);
+    this.recordings[recordingKey(params)] = response;
+    return response;
+  }
+
+  /**
+   * Writes the recorded responses to the file
+   */
+  save(): void {
+    writeFileSync(this.path, JSON.stringify(this.recordings, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * Answers requests from a file written by RecordingProvider. Only requests
+ * identical to recorded ones can be answered, so a change to the prompts,
+ * documentation or model requires a new recording.
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+
+  /**
+   * Creates a new instance of ReplayProvider
+   * @param recordings - Responses keyed by request hash
+   * @param path - File the responses came from, for error messages
+   */
+  constructor(private readonly recordings: Record<string, ClaudeResponse>, private readonly path = 'recordings') {}
+
+  /**
+   * Loads recorded responses from a JSON file
+   * @param path - Path to the JSON file
+   * @returns The provider
+   */
+  static fromFile(path: string): ReplayProvider {
+    return new ReplayProvider(readRecordings(path), path);
+  }
+
+  async createMessage(params: CompletionParams): Promise<ClaudeResponse> {
+    const response = this.recordings[recordingKey(params)];
+    if (!response) {
+      throw new ProviderError(`No recorded response in ${this.path} for this request. Record the run again after changing prompts, documentation or model`);
+    }
+    return response;
+  }
+}
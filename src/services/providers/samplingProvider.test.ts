@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CreateMessageRequest, CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MockProvider, SamplingProvider } from './index.js';
+import { CompletionParams } from './llmProvider.js';
+
+const params: CompletionParams = {
+  model: 'claude-test',
+  max_tokens: 100,
+  system: 'You are an API expert.',
+  messages: [{ role: 'user', content: 'How do I list users?' }],
+};
+
+/**
+ * Connects a server to a client that optionally supports sampling
+ */
+async function connect(sampling: boolean): Promise<{ server: Server; requests: CreateMessageRequest['params'][] }> {
+  const server = new Server({ name: 'expert', version: '1.0.0' }, { capabilities: {} });
+  const client = new Client({ name: 'test', version: '1.0.0' }, { capabilities: sampling ? { sampling: {} } : {} });
+  const requests: CreateMessageRequest['params'][] = [];
+  if (sampling) {
+    client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      requests.push(request.params);
+      return { model: 'client-model', role: 'assistant', stopReason: 'maxTokens', content: { type: 'text', text: 'GET /users' } };
+    });
+  }
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return { server, requests };
+}
+
+describe('SamplingProvider', () => {
+  it('sends completions to the client when it supports sampling', async () => {
+    const { server, requests } = await connect(true);
+    const provider = new SamplingProvider(server, () => new MockProvider([], 'fallback'));
+
+    const response = await provider.createMessage(params);
+    expect(response.model).toBe('client-model');
+    expect(response.content).toEqual([{ type: 'text', text: 'GET /users' }]);
+    expect(response.stop_reason).toBe('max_tokens');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].systemPrompt).toBe('You are an API expert.');
+    expect(requests[0].maxTokens).toBe(100);
+    expect(requests[0].messages).toEqual([{ role: 'user', content: { type: 'text', text: 'How do I list users?' } }]);
+  });
+
+  it('uses the fallback provider when the client does not support sampling', async () => {
+    const { server } = await connect(false);
+    let created = 0;
+    const provider = new SamplingProvider(server, () => {
+      created++;
+      return new MockProvider([], 'fallback');
+    });
+
+    expect(provider.isSamplingSupported()).toBe(false);
+    expect((await provider.createMessage(params)).content[0].text).toBe('fallback');
+    await provider.createMessage(params);
+    expect(created).toBe(1);
+  });
+
+  it('fails when sampling is unavailable and there is no fallback', async () => {
+    const { server } = await connect(false);
+    await expect(new SamplingProvider(server).createMessage(params)).rejects.toThrow('does not support sampling');
+  });
+});
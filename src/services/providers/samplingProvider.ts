@@ -0,0 +1,81 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ClaudeResponse, CompletionOptions, CompletionParams, LLMProvider, contentText } from './llmProvider.js';
+import { debugLog } from '../../logger.js';
+
+/**
+ * Provider that asks the connected MCP client to run completions through
+ * `sampling/createMessage`, so the server needs no API key of its own.
+ * Falls back to another provider when the client does not support sampling.
+ */
+export class SamplingProvider implements LLMProvider {
+  readonly name = 'sampling';
+  private fallback?: LLMProvider;
+
+  /**
+   * Creates a new instance of SamplingProvider
+   * @param server - The MCP server connected to the client
+   * @param createFallback - Creates the provider used when sampling is unavailable.
+   *   Called lazily so a missing API key only matters if the fallback is needed.
+   */
+  constructor(private readonly server: Server, private readonly createFallback?: () => LLMProvider) {}
+
+  /**
+   * Checks whether the connected client advertised the sampling capability
+   * @returns True if sampling requests can be sent
+   */
+  isSamplingSupported(): boolean {
+    return Boolean(this.server.getClientCapabilities()?.sampling);
+  }
+
+  async createMessage(params: CompletionParams, options?: CompletionOptions): Promise<ClaudeResponse> {
+    if (!this.isSamplingSupported()) {
+      return this.getFallback().createMessage(params, options);
+    }
+
+    debugLog('Sending completion through MCP sampling');
+    const result = await this.server.createMessage({
+      messages: params.messages.map(message => ({
+        role: message.role,
+        content: {
+          type: 'text' as const,
+          text: contentText(message.content),
+        },
+      })),
+      systemPrompt: params.system ? contentText(params.system) : undefined,
+      maxTokens: params.max_tokens,
+      temperature: params.temperature,
+      includeContext: 'none',
+      modelPreferences: {
+        hints: [{ name: params.model }],
+      },
+    }, { signal: options?.signal });
+
+    return {
+      id: `sampling-${Date.now()}`,
+      type: 'message',
+      role: 'assistant',
+      model: result.model,
+      content: result.content.type === 'text' ? [{ type: 'text', text: result.content.text }] : [],
+      stop_reason: result.stopReason === 'maxTokens' ? 'max_tokens' : result.stopReason === 'stopSequence' ? 'stop_sequence' : 'end_turn',
+      // Clients do not report token usage for sampling requests
+      usage: {
+        input_tokens: 0,
+        output_tokens: 0,
+      },
+    };
+  }
+
+  /**
+   * Gets the fallback provider, creating it on first use
+   */
+  private getFallback(): LLMProvider {
+    if (!this.fallback) {
+      if (!this.createFallback) {
+        throw new Error('The MCP client does not support sampling and no fallback provider is configured.');
+      }
+      debugLog('Client does not support sampling, using fallback provider');
+      this.fallback = this.createFallback();
+    }
+    return this.fallback;
+  }
+}
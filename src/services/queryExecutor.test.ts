@@ -0,0 +1,110 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CancelledError, ExecutionBlockedError, ExecutionError } from './errors.js';
+import { QueryExecutor, isFailedExecution } from './queryExecutor.js';
+
+describe('QueryExecutor.resolve', () => {
+  it('blocks URLs that cannot be parsed instead of failing with an internal error', () => {
+    const executor = new QueryExecutor({ baseUrl: 'https://api.example.com/v1' });
+    expect(() => executor.resolve('curl https://<host>/v1/users')).toThrow(ExecutionBlockedError);
+    expect(() => executor.resolve('GET /users/%ZZ')).toThrow('Invalid URL /users/%ZZ: malformed percent-encoding');
+  });
+
+  it('resolves paths against the base URL, with or without its path', () => {
+    const executor = new QueryExecutor({ baseUrl: 'https://api.example.com/v1' });
+    expect(executor.resolve('GET /users?limit=2').url).toBe('https://api.example.com/v1/users?limit=2');
+    expect(executor.resolve('GET /v1/users').url).toBe('https://api.example.com/v1/users');
+  });
+
+  it('only allows the base URL host and the configured hosts', () => {
+    const executor = new QueryExecutor({ baseUrl: 'https://api.example.com', allowedHosts: ['*.example.org'] });
+    expect(executor.resolve('GET https://eu.example.org/users').url).toBe('https://eu.example.org/users');
+    expect(() => executor.resolve('GET https://evil.com/users')).toThrow('Host evil.com is not allowed');
+    expect(() => executor.resolve('GET https://example.org.evil.com/users')).toThrow(ExecutionBlockedError);
+  });
+
+  it('blocks writes and GraphQL mutations unless writes are allowed', () => {
+    const executor = new QueryExecutor({ baseUrl: 'https://api.example.com/graphql' });
+    expect(() => executor.resolve('DELETE /users/1')).toThrow('DELETE requests are not run unless writes are allowed');
+    expect(() => executor.resolve('mutation { deleteUser(id: 1) }')).toThrow('GraphQL mutations are not run');
+    expect(() => executor.resolve('subscription { users { id } }')).toThrow('GraphQL subscriptions cannot be run');
+
+    const writer = new QueryExecutor({ baseUrl: 'https://api.example.com/graphql', allowWrites: true });
+    expect(writer.resolve('DELETE /users/1').method).toBe('DELETE');
+    expect(writer.resolve('mutation { deleteUser(id: 1) }').method).toBe('POST');
+  });
+
+  it('fills configured headers from the environment and masks them for display', () => {
+    const executor = new QueryExecutor({
+      baseUrl: 'https://api.example.com',
+      headers: { Authorization: 'Bearer ${API_TOKEN}' },
+      env: { API_TOKEN: 'secret' },
+    });
+    const request = executor.resolve('GET /users');
+    expect(request.headers.authorization).toBe('Bearer secret');
+    expect(executor.redact(request).headers.authorization).toBe('[REDACTED]');
+
+    const unset = new QueryExecutor({ baseUrl: 'https://api.example.com', headers: { 'X-Key': '${MISSING}' }, env: {} });
+    expect(() => unset.resolve('GET /users')).toThrow('uses the environment variable MISSING, which is not set');
+  });
+});
+
+describe('QueryExecutor.execute', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: { method?: string; url?: string; headers: IncomingHttpHeaders; body: string }[];
+  let reply: { status: number; body: string; delayMs?: number };
+
+  beforeEach(async () => {
+    received = [];
+    reply = { status: 200, body: '{"data":{"users":[]}}' };
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers, body });
+        setTimeout(() => {
+          res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+          res.end(reply.body);
+        }, reply.delayMs || 0);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('posts GraphQL operations with their variables and reports GraphQL errors as failures', async () => {
+    const executor = new QueryExecutor({ baseUrl });
+    const result = await executor.execute('query Users($limit: Int) { users(limit: $limit) { id } }', { variables: { limit: 2 } });
+    expect(result).toMatchObject({ status: 200, truncated: false, contentType: 'application/json' });
+    expect(JSON.parse(received[0].body).variables).toEqual({ limit: 2 });
+    expect(isFailedExecution(result)).toBe(false);
+
+    reply.body = '{"errors":[{"message":"Cannot query field"}]}';
+    expect(isFailedExecution(await executor.execute('{ users { id } }'))).toBe(true);
+  });
+
+  it('truncates large responses', async () => {
+    reply.body = JSON.stringify({ data: 'x'.repeat(5000) });
+    const result = await new QueryExecutor({ baseUrl, maxResponseBytes: 1024 }).execute('GET /users');
+    expect(result.truncated).toBe(true);
+    expect(result.body.length).toBeLessThanOrEqual(1024);
+    expect(received[0].url).toBe('/graphql/users');
+  });
+
+  it('gives up after the timeout and when cancelled', async () => {
+    reply.delayMs = 200;
+    await expect(new QueryExecutor({ baseUrl, timeoutMs: 20 }).execute('GET /users')).rejects.toBeInstanceOf(ExecutionError);
+
+    const controller = new AbortController();
+    const running = new QueryExecutor({ baseUrl }).execute('GET /users', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    await expect(running).rejects.toBeInstanceOf(CancelledError);
+  });
+});
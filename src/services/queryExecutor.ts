@@ -0,0 +1,321 @@
+import { Kind, OperationDefinitionNode, parse as parseGraphQL } from 'graphql';
+import { CancelledError, ExecutionBlockedError, ExecutionError } from './errors.js';
+import { extractGraphQLOperation } from './graphqlValidator.js';
+import { parseHttpRequest } from './queryValidation.js';
+import { debugLog, redactBody } from '../logger.js';
+
+// Methods that are run without --execute-allow-writes
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Headers fetch sets itself, which must not be copied from the generated request
+const DROPPED_HEADERS = ['host', 'content-length', 'connection', 'transfer-encoding'];
+
+const GRAPHQL_START = /^(query|mutation|subscription|fragment)\b|^\{/;
+
+/**
+ * Configuration options for QueryExecutor
+ */
+export interface QueryExecutorConfig {
+  // URL relative request paths are resolved against, and the GraphQL endpoint
+  baseUrl: string;
+  // Other hosts absolute URLs may point to; `*.example.com` matches subdomains
+  allowedHosts?: string[];
+  // Also run POST, PUT, PATCH and DELETE requests and GraphQL mutations
+  allowWrites?: boolean;
+  // Headers added to every request; `${NAME}` is replaced by the environment variable
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  maxResponseBytes?: number;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * A generated query resolved to the HTTP request that runs it
+ */
+export interface ResolvedRequest {
+  kind: 'http' | 'graphql';
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * The API's response to a query
+ */
+export interface ExecutionResult {
+  // The request as sent, with configured header values masked
+  request: ResolvedRequest;
+  status: number;
+  statusText: string;
+  contentType?: string;
+  body: string;
+  // Whether the body was cut off at the response size limit
+  truncated: boolean;
+  durationMs: number;
+}
+
+/**
+ * Checks whether the API rejected a query: an error status, or a GraphQL
+ * response with errors, which GraphQL servers usually send with status 200
+ * @param result - The API's response
+ * @returns True if the query failed
+ */
+export function isFailedExecution(result: ExecutionResult): boolean {
+  if (result.status >= 400) {
+    return true;
+  }
+  if (result.request.kind !== 'graphql' || result.truncated) {
+    return false;
+  }
+  try {
+    const errors = JSON.parse(result.body)?.errors;
+    return Array.isArray(errors) && errors.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Runs generated HTTP requests and GraphQL operations against a configured
+ * API, refusing hosts outside the allowlist and, unless enabled, writes
+ */
+export class QueryExecutor {
+  private readonly baseUrl: URL;
+  private readonly allowedHosts: string[];
+  private readonly allowWrites: boolean;
+  private readonly headers: Record<string, string>;
+  private readonly timeoutMs: number;
+  private readonly maxResponseBytes: number;
+  private readonly env: NodeJS.ProcessEnv;
+
+  /**
+   * Creates a new instance of QueryExecutor
+   * @param config - The target API and safety limits
+   */
+  constructor(config: QueryExecutorConfig) {
+    this.baseUrl = new URL(config.baseUrl);
+    this.allowedHosts = [this.baseUrl.host, ...config.allowedHosts || []].map(host => host.toLowerCase());
+    this.allowWrites = config.allowWrites ?? false;
+    this.headers = Object.fromEntries(Object.entries(config.headers || {}).map(([name, value]) => [name.toLowerCase(), value]));
+    this.timeoutMs = config.timeoutMs || 10000;
+    this.maxResponseBytes = config.maxResponseBytes || 64 * 1024;
+    this.env = config.env || process.env;
+  }
+
+  /**
+   * Gets the URL relative request paths are resolved against
+   * @returns The base URL
+   */
+  getBaseUrl(): string {
+    return this.baseUrl.toString();
+  }
+
+  /**
+   * Resolves a generated query to the request that runs it, applying the
+   * host, method and header rules
+   * @param query - An HTTP request, curl command or GraphQL operation, optionally in a code fence
+   * @param variables - GraphQL variables; taken from a JSON code fence after the operation if omitted
+   * @returns The request
+   * @throws ExecutionBlockedError if the query cannot or may not be run
+   */
+  resolve(query: string, variables?: Record<string, unknown>): ResolvedRequest {
+    const http = parseHttpRequest(query);
+    const request = http
+      ? this.resolveHttp(http)
+      : this.resolveGraphQL(query, variables);
+
+    const url = new URL(request.url);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new ExecutionBlockedError(`Only http and https URLs can be run, not ${url.protocol}`);
+    }
+    if (!this.isAllowedHost(url)) {
+      throw new ExecutionBlockedError(`Host ${url.host} is not allowed. Allowed hosts: ${this.allowedHosts.join(', ')}`);
+    }
+    if (!this.allowWrites && request.kind === 'http' && !READ_ONLY_METHODS.includes(request.method)) {
+      throw new ExecutionBlockedError(`${request.method} requests are not run unless writes are allowed (--execute-allow-writes)`);
+    }
+
+    for (const [name, template] of Object.entries(this.headers)) {
+      request.headers[name] = template.replace(/\$\{(\w+)\}/g, (_, variable: string) => {
+        const value = this.env[variable];
+        if (value === undefined) {
+          throw new ExecutionBlockedError(`Header ${name} uses the environment variable ${variable}, which is not set`);
+        }
+        return value;
+      });
+    }
+    return request;
+  }
+
+  /**
+   * Masks the values of configured headers, for showing a request to clients
+   * @param request - The resolved request
+   * @returns A copy with configured header values replaced
+   */
+  redact(request: ResolvedRequest): ResolvedRequest {
+    const headers = Object.fromEntries(Object.entries(request.headers)
+      .map(([name, value]) => [name, name in this.headers ? '[REDACTED]' : value]));
+    return { ...request, headers };
+  }
+
+  /**
+   * Runs a query against the API
+   * @param query - An HTTP request, curl command or GraphQL operation
+   * @param options - GraphQL variables and a signal that cancels the request
+   * @returns The response, whatever its status
+   * @throws ExecutionBlockedError if the query cannot or may not be run
+   * @throws ExecutionError if no response was received
+   * @throws CancelledError if the caller cancelled the request
+   */
+  async execute(query: string, options?: { variables?: Record<string, unknown>; signal?: AbortSignal }): Promise<ExecutionResult> {
+    const request = this.resolve(query, options?.variables);
+    const shown = this.redact(request);
+    debugLog(`Running ${request.method} ${request.url} with headers ${redactBody(shown.headers)}`);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+    const onAbort = () => controller.abort();
+    if (options?.signal?.aborted) {
+      controller.abort();
+    }
+    options?.signal?.addEventListener('abort', onAbort);
+
+    const startTime = Date.now();
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        // Following a redirect could leave the allowed hosts
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+      const { body, truncated } = await this.readBody(response);
+      const durationMs = Date.now() - startTime;
+      debugLog(`${request.method} ${request.url} returned ${response.status} in ${durationMs}ms`);
+      return {
+        request: shown,
+        status: response.status,
+        statusText: response.statusText,
+        contentType: response.headers.get('content-type') || undefined,
+        body,
+        truncated,
+        durationMs,
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        if (!timedOut) {
+          throw new CancelledError();
+        }
+        throw new ExecutionError(`${new URL(request.url).host} did not respond within ${this.timeoutMs}ms`);
+      }
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : error;
+      throw new ExecutionError(`Request to ${new URL(request.url).host} failed: ${cause instanceof Error ? cause.message : cause}`, true, error);
+    } finally {
+      clearTimeout(timer);
+      options?.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Resolves an HTTP request or curl command against the base URL
+   */
+  private resolveHttp(http: NonNullable<ReturnType<typeof parseHttpRequest>>): ResolvedRequest {
+    if (http.urlError) {
+      throw new ExecutionBlockedError(http.urlError);
+    }
+    let url: URL;
+    if (http.origin) {
+      url = new URL(http.path, http.origin);
+    } else {
+      // Paths from the documentation may or may not include the base URL's path
+      const basePath = this.baseUrl.pathname.replace(/\/$/, '');
+      const path = http.path === basePath || http.path.startsWith(`${basePath}/`) ? http.path : `${basePath}${http.path}`;
+      url = new URL(path, this.baseUrl.origin);
+    }
+    for (const [key, value] of Object.entries(http.query)) {
+      url.searchParams.set(key, value);
+    }
+
+    const headers = Object.fromEntries(Object.entries(http.headers)
+      .filter(([name]) => !DROPPED_HEADERS.includes(name)));
+    if (http.rawBody !== undefined && typeof http.body !== 'string' && !headers['content-type']) {
+      headers['content-type'] = 'application/json';
+    }
+    return { kind: 'http', method: http.method, url: url.toString(), headers, body: http.rawBody };
+  }
+
+  /**
+   * Resolves a GraphQL operation to a POST to the base URL
+   */
+  private resolveGraphQL(query: string, variables?: Record<string, unknown>): ResolvedRequest {
+    const operation = extractGraphQLOperation(query);
+    if (!GRAPHQL_START.test(operation.source)) {
+      throw new ExecutionBlockedError('The query is not an HTTP request, curl command or GraphQL operation');
+    }
+    let operations: OperationDefinitionNode[];
+    try {
+      operations = parseGraphQL(operation.source).definitions
+        .filter((definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION);
+    } catch (error) {
+      throw new ExecutionBlockedError(`The query is not valid GraphQL: ${error instanceof Error ? error.message : error}`);
+    }
+    if (operations.some(definition => definition.operation === 'subscription')) {
+      throw new ExecutionBlockedError('GraphQL subscriptions cannot be run');
+    }
+    if (!this.allowWrites && operations.some(definition => definition.operation === 'mutation')) {
+      throw new ExecutionBlockedError('GraphQL mutations are not run unless writes are allowed (--execute-allow-writes)');
+    }
+
+    return {
+      kind: 'graphql',
+      method: 'POST',
+      url: this.baseUrl.toString(),
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ query: operation.source, variables: variables ?? operation.variables }),
+    };
+  }
+
+  /**
+   * Checks a URL's host against the base URL and the allowlist
+   */
+  private isAllowedHost(url: URL): boolean {
+    const host = url.host.toLowerCase();
+    const hostname = url.hostname.toLowerCase();
+    return this.allowedHosts.some(allowed => allowed.startsWith('*.')
+      ? hostname.endsWith(allowed.slice(1))
+      : allowed === host || allowed === hostname);
+  }
+
+  /**
+   * Reads a response body up to the size limit, cancelling the rest
+   */
+  private async readBody(response: Response): Promise<{ body: string; truncated: boolean }> {
+    if (!response.body) {
+      return { body: '', truncated: false };
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let truncated = false;
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(Buffer.from(value));
+      size += value.byteLength;
+      if (size > this.maxResponseBytes) {
+        truncated = true;
+        await reader.cancel();
+        break;
+      }
+    }
+    return { body: Buffer.concat(chunks).subarray(0, this.maxResponseBytes).toString('utf-8'), truncated };
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { formatValidationReport, parseHttpRequest, stripCodeFence } from './queryValidation.js';
+
+describe('stripCodeFence', () => {
+  it('returns the contents of the first code fence', () => {
+    expect(stripCodeFence('Here it is:\n```http\nGET /users\n```\nDone')).toBe('GET /users');
+    expect(stripCodeFence('  GET /users  ')).toBe('GET /users');
+  });
+});
+
+describe('parseHttpRequest', () => {
+  it('parses a request line with headers and a JSON body', () => {
+    const request = parseHttpRequest('POST /users?role=admin HTTP/1.1\nContent-Type: application/json\n\n{"name": "Ann"}');
+    expect(request).toEqual({
+      method: 'POST',
+      origin: undefined,
+      path: '/users',
+      query: { role: 'admin' },
+      headers: { 'content-type': 'application/json' },
+      rawBody: '{"name": "Ann"}',
+      body: { name: 'Ann' },
+    });
+  });
+
+  it('parses curl commands with quoted arguments and line continuations', () => {
+    const request = parseHttpRequest(`curl -X PATCH 'https://api.example.com/v1/users/7' \\\n  -H "Authorization: Bearer abc" \\\n  -d '{"admin":true}'`);
+    expect(request).toMatchObject({
+      method: 'PATCH',
+      origin: 'https://api.example.com',
+      path: '/v1/users/7',
+      headers: { authorization: 'Bearer abc' },
+      body: { admin: true },
+    });
+  });
+
+  it('defaults curl commands with a body to POST', () => {
+    expect(parseHttpRequest('curl https://api.example.com/users --data x')?.method).toBe('POST');
+  });
+
+  it('keeps non-JSON bodies as text', () => {
+    expect(parseHttpRequest('POST /notes\n\nhello')?.body).toBe('hello');
+  });
+
+  it('returns undefined for text that is not an HTTP request', () => {
+    expect(parseHttpRequest('query { users { id } }')).toBeUndefined();
+    expect(parseHttpRequest('curl --verbose')).toBeUndefined();
+  });
+
+  it('reports URLs that cannot be parsed instead of throwing', () => {
+    expect(parseHttpRequest('curl https://<host>/v1/users')).toMatchObject({
+      method: 'GET',
+      path: '',
+      query: {},
+      urlError: 'Invalid URL https://<host>/v1/users: not a valid URL',
+    });
+    expect(parseHttpRequest('GET /users/%ZZ')?.urlError).toBe('Invalid URL /users/%ZZ: malformed percent-encoding');
+  });
+});
+
+describe('formatValidationReport', () => {
+  it('lists the errors of a failed report', () => {
+    expect(formatValidationReport({ validator: 'OpenAPI', valid: false, errors: ['Unknown path /x'], target: 'GET /x' }))
+      .toBe('Validation failed against OpenAPI (GET /x):\n- Unknown path /x');
+    expect(formatValidationReport({ validator: 'OpenAPI', valid: true, errors: [] })).toBe('Validation passed against OpenAPI');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Interface for the result of validating a generated query
+ */
+export interface ValidationReport {
+  validator: string;
+  valid: boolean;
+  errors: string[];
+  target?: string;
+}
+
+/**
+ * Interface for validators that check generated queries against a schema
+ */
+export interface QueryValidator {
+  readonly name: string;
+  /**
+   * Validates a generated query
+   * @param query - The query text returned by the model
+   * @returns A report, or undefined if the query is not something this validator understands
+   */
+  validate(query: string): ValidationReport | undefined;
+}
+
+/**
+ * Interface for an HTTP request extracted from model output
+ */
+export interface ParsedHttpRequest {
+  method: string;
+  // Scheme, host and port, when the request used an absolute URL
+  origin?: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+  rawBody?: string;
+  // Set when the URL cannot be parsed; path and query are then empty
+  urlError?: string;
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+/**
+ * Removes a surrounding Markdown code fence from model output
+ * @param text - The model output
+ * @returns The contents of the first code fence, or the trimmed text
+ */
+export function stripCodeFence(text: string): string {
+  const match = /```[\w-]*\r?\n([\s\S]*?)```/.exec(text);
+  return (match ? match[1] : text).trim();
+}
+
+/**
+ * Splits a URL or path into its path and query parameters. Model output may
+ * hold URLs that cannot be parsed, such as `https://<host>/users` or
+ * malformed percent-encoding, which are reported in `urlError`.
+ */
+function splitUrl(url: string): Pick<ParsedHttpRequest, 'origin' | 'path' | 'query' | 'urlError'> {
+  try {
+    const parsed = new URL(url, 'http://placeholder');
+    const query: Record<string, string> = {};
+    parsed.searchParams.forEach((value, key) => {
+      query[key] = value;
+    });
+    const origin = /^[a-z][a-z\d+.-]*:\/\//i.test(url) ? parsed.origin : undefined;
+    return { origin, path: decodeURI(parsed.pathname), query };
+  } catch (error) {
+    const reason = error instanceof URIError ? 'malformed percent-encoding' : 'not a valid URL';
+    return { path: '', query: {}, urlError: `Invalid URL ${url}: ${reason}` };
+  }
+}
+
+/**
+ * Parses a body string as JSON when possible
+ */
+function parseBody(rawBody: string): unknown {
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return rawBody;
+  }
+}
+
+/**
+ * Splits a shell command line into arguments, honouring quotes and line continuations
+ */
+function shellSplit(command: string): string[] {
+  const args: string[] = [];
+  const pattern = /'((?:[^'])*)'|"((?:\\.|[^"\\])*)"|(\S+)/g;
+  const source = command.replace(/\\\r?\n/g, ' ');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    args.push(match[1] ?? (match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3]));
+  }
+  return args;
+}
+
+/**
+ * Parses a curl command into an HTTP request
+ */
+function parseCurl(command: string): ParsedHttpRequest | undefined {
+  const args = shellSplit(command);
+  let method: string | undefined;
+  let url: string | undefined;
+  let rawBody: string | undefined;
+  const headers: Record<string, string> = {};
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if ((arg === '-X' || arg === '--request') && args[i + 1]) {
+      method = args[++i].toUpperCase();
+    } else if ((arg === '-H' || arg === '--header') && args[i + 1]) {
+      const header = args[++i];
+      const separator = header.indexOf(':');
+      if (separator > 0) {
+        headers[header.slice(0, separator).trim().toLowerCase()] = header.slice(separator + 1).trim();
+      }
+    } else if (['-d', '--data', '--data-raw', '--data-binary', '--json'].includes(arg) && args[i + 1]) {
+      rawBody = args[++i];
+    } else if (arg === '--url' && args[i + 1]) {
+      url = args[++i];
+    } else if (!arg.startsWith('-') && !url) {
+      url = arg;
+    }
+  }
+
+  if (!url) {
+    return undefined;
+  }
+  return {
+    method: method || (rawBody !== undefined ? 'POST' : 'GET'),
+    ...splitUrl(url),
+    headers,
+    rawBody,
+    body: rawBody !== undefined ? parseBody(rawBody) : undefined,
+  };
+}
+
+/**
+ * Extracts an HTTP request from model output. Supports raw HTTP request
+ * lines (`GET /users?limit=10`, optionally followed by headers and a body)
+ * and curl commands.
+ * @param text - The model output
+ * @returns The parsed request, or undefined if the text is not an HTTP request
+ */
+export function parseHttpRequest(text: string): ParsedHttpRequest | undefined {
+  const source = stripCodeFence(text);
+  if (/^curl\s/.test(source)) {
+    return parseCurl(source);
+  }
+
+  const lines = source.split(/\r?\n/);
+  const requestLine = new RegExp(`^(${HTTP_METHODS.join('|')})\\s+(\\S+)(?:\\s+HTTP/[\\d.]+)?$`, 'i').exec(lines[0].trim());
+  if (!requestLine) {
+    return undefined;
+  }
+
+  const headers: Record<string, string> = {};
+  let i = 1;
+  for (; i < lines.length && lines[i].trim(); i++) {
+    const separator = lines[i].indexOf(':');
+    if (separator > 0) {
+      headers[lines[i].slice(0, separator).trim().toLowerCase()] = lines[i].slice(separator + 1).trim();
+    }
+  }
+  const rawBody = lines.slice(i + 1).join('\n').trim() || undefined;
+
+  return {
+    method: requestLine[1].toUpperCase(),
+    ...splitUrl(requestLine[2]),
+    headers,
+    rawBody,
+    body: rawBody !== undefined ? parseBody(rawBody) : undefined,
+  };
+}
+
+/**
+ * Formats a validation report as readable text
+ * @param report - The validation report
+ * @returns Multi-line report text
+ */
+export function formatValidationReport(report: ValidationReport): string {
+  const target = report.target ? ` (${report.target})` : '';
+  if (report.valid) {
+    return `Validation passed against ${report.validator}${target}`;
+  }
+  return `Validation failed against ${report.validator}${target}:\n${report.errors.map(error => `- ${error}`).join('\n')}`;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { CancelledError, QueueTimeoutError } from './errors.js';
+import { RequestQueue } from './requestQueue.js';
+
+/**
+ * Creates a task that runs until it is released
+ */
+function blocker(): { task: () => Promise<void>; release: () => void } {
+  let release = () => {};
+  const done = new Promise<void>(resolve => { release = resolve; });
+  return { task: () => done, release };
+}
+
+describe('RequestQueue', () => {
+  it('runs at most the configured number of tasks at once, in FIFO order', async () => {
+    const queue = new RequestQueue({ maxConcurrent: 2 });
+    const started: string[] = [];
+    const tasks = ['a', 'b', 'c', 'd'].map(name => {
+      const { task, release } = blocker();
+      return { release, done: queue.run(() => { started.push(name); return task(); }) };
+    });
+    const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    await settle();
+    expect(started).toEqual(['a', 'b']);
+    tasks[1].release();
+    await settle();
+    expect(started).toEqual(['a', 'b', 'c']);
+    tasks[0].release();
+    await settle();
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+    tasks.forEach(task => task.release());
+    await Promise.all(tasks.map(task => task.done));
+  });
+
+  it('reports queue positions and frees the slot when a task fails', async () => {
+    const queue = new RequestQueue({ maxConcurrent: 1 });
+    const positions: number[][] = [[], []];
+    const failing = queue.run(() => Promise.reject(new Error('boom')));
+    const first = queue.run(async () => 'first', { onPosition: position => positions[0].push(position) });
+    const second = queue.run(async () => 'second', { onPosition: position => positions[1].push(position) });
+
+    await expect(failing).rejects.toThrow('boom');
+    expect(await first).toBe('first');
+    expect(await second).toBe('second');
+    expect(positions).toEqual([[1, 0], [2, 1, 0]]);
+  });
+
+  it('gives up on waiting tasks after the queue timeout', async () => {
+    const queue = new RequestQueue({ maxConcurrent: 1, queueTimeoutMs: 20 });
+    const busy = blocker();
+    const running = queue.run(busy.task);
+    await expect(queue.run(async () => 'late')).rejects.toBeInstanceOf(QueueTimeoutError);
+    busy.release();
+    await running;
+    expect(await queue.run(async () => 'next')).toBe('next');
+  });
+
+  it('removes cancelled tasks from the queue', async () => {
+    const queue = new RequestQueue({ maxConcurrent: 1 });
+    const busy = blocker();
+    const running = queue.run(busy.task);
+    const controller = new AbortController();
+    let ran = false;
+    const cancelled = queue.run(async () => { ran = true; }, { signal: controller.signal });
+    const positions: number[] = [];
+    const next = queue.run(async () => 'next', { onPosition: position => positions.push(position) });
+
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(CancelledError);
+    expect(positions).toEqual([2, 1]);
+    busy.release();
+    await running;
+    expect(await next).toBe('next');
+    expect(ran).toBe(false);
+    await expect(queue.run(async () => {}, { signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+  });
+});
@@ -0,0 +1,117 @@
+import { CancelledError, QueueTimeoutError } from './errors.js';
+import { debugLog } from '../logger.js';
+
+/**
+ * Configuration options for RequestQueue
+ */
+export interface RequestQueueConfig {
+  maxConcurrent?: number;
+  queueTimeoutMs?: number;
+}
+
+/**
+ * Options for a single queued task
+ */
+export interface QueueOptions {
+  signal?: AbortSignal;
+  /**
+   * Called with the 1-based queue position while the task waits, and with 0 when it starts
+   */
+  onPosition?: (position: number) => void;
+}
+
+interface Waiter {
+  start: () => void;
+  onPosition?: (position: number) => void;
+}
+
+/**
+ * Limits the number of model calls in flight. Calls beyond the limit wait
+ * in FIFO order until a slot is free, the queue timeout expires or their
+ * signal is aborted.
+ */
+export class RequestQueue {
+  private active = 0;
+  private waiting: Waiter[] = [];
+  private readonly maxConcurrent: number;
+  private readonly queueTimeoutMs: number;
+
+  /**
+   * Creates a new instance of RequestQueue
+   * @param config - Optional configuration parameters
+   */
+  constructor(config?: RequestQueueConfig) {
+    this.maxConcurrent = config?.maxConcurrent || 4;
+    this.queueTimeoutMs = config?.queueTimeoutMs || 60000;
+  }
+
+  /**
+   * Runs a task once a slot is free
+   * @param task - The task to run
+   * @param options - Optional abort signal and position callback
+   * @returns The task's result
+   * @throws CancelledError if the signal is aborted while waiting
+   * @throws QueueTimeoutError if no slot became free within the queue timeout
+   */
+  async run<T>(task: () => Promise<T>, options?: QueueOptions): Promise<T> {
+    await this.acquire(options);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(options?: QueueOptions): Promise<void> {
+    if (options?.signal?.aborted) {
+      return Promise.reject(new CancelledError());
+    }
+    if (this.active < this.maxConcurrent && this.waiting.length === 0) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const leave = (error: Error) => {
+        this.waiting = this.waiting.filter(entry => entry !== waiter);
+        cleanup();
+        this.notifyPositions();
+        reject(error);
+      };
+      const onAbort = () => leave(new CancelledError());
+      const timer = setTimeout(() => leave(new QueueTimeoutError(this.queueTimeoutMs)), this.queueTimeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        options?.signal?.removeEventListener('abort', onAbort);
+      };
+      const waiter: Waiter = {
+        start: () => {
+          cleanup();
+          options?.onPosition?.(0);
+          resolve();
+        },
+        onPosition: options?.onPosition,
+      };
+
+      options?.signal?.addEventListener('abort', onAbort);
+      this.waiting.push(waiter);
+      debugLog(`Model call queued at position ${this.waiting.length} (${this.active} in flight)`);
+      options?.onPosition?.(this.waiting.length);
+    });
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // The slot passes directly to the next waiter
+      next.start();
+      this.notifyPositions();
+    } else {
+      this.active--;
+    }
+  }
+
+  private notifyPositions(): void {
+    this.waiting.forEach((waiter, index) => waiter.onPosition?.(index + 1));
+  }
+}
@@ -0,0 +1,82 @@
+import { mkdtempSync, readdirSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CacheKey, ResponseCache, normalizeRequest } from './responseCache.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'expert-cache-'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function key(request: string): CacheKey {
+  return { tool: 'create-query', request, model: 'm', docsHash: 'd', promptsHash: 'p' };
+}
+
+describe('normalizeRequest', () => {
+  it('collapses whitespace but keeps case', () => {
+    expect(normalizeRequest('  List   users\nby ID ')).toBe('List users by ID');
+    expect(normalizeRequest('Find user ABC')).not.toBe(normalizeRequest('find user abc'));
+  });
+});
+
+describe('ResponseCache', () => {
+  it('returns stored values for requests differing only in whitespace', () => {
+    const cache = new ResponseCache({ dir });
+    cache.set(key('list users'), { query: 'GET /users' });
+    expect(cache.get(key(' list\n users '))).toEqual({ query: 'GET /users' });
+    expect(cache.get(key('List users'))).toBeUndefined();
+  });
+
+  it('expires entries after the TTL', () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ dir, ttlMs: 1000 });
+    cache.set(key('list users'), 'GET /users');
+    vi.advanceTimersByTime(1001);
+    expect(cache.get(key('list users'))).toBeUndefined();
+  });
+
+  it('evicts the least recently used entries over the entry limit', () => {
+    const cache = new ResponseCache({ dir, maxEntries: 2 });
+    cache.set(key('a'), 'A');
+    cache.set(key('b'), 'B');
+    const [first] = cache.list().filter(entry => entry.request === 'a');
+    utimesSync(join(dir, `${first.id}.json`), new Date(0), new Date(0));
+    cache.set(key('c'), 'C');
+    expect(cache.get(key('a'))).toBeUndefined();
+    expect(cache.get(key('b'))).toBe('B');
+    expect(cache.get(key('c'))).toBe('C');
+  });
+
+  it('reads entries to sweep expired ones only once per interval', () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ dir, ttlMs: 60 * 60 * 1000 });
+    cache.set(key('a'), 'A');
+    const purge = vi.spyOn(cache, 'purge');
+    cache.set(key('b'), 'B');
+    cache.set(key('c'), 'C');
+    expect(purge).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    cache.set(key('d'), 'D');
+    expect(purge).toHaveBeenCalledTimes(1);
+    expect(readdirSync(dir)).toHaveLength(4);
+  });
+
+  it('purges all or only expired entries', () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ dir, ttlMs: 1000 });
+    cache.set(key('old'), 'A');
+    vi.advanceTimersByTime(600);
+    cache.set(key('new'), 'B');
+    vi.advanceTimersByTime(500);
+    expect(cache.purge(true)).toBe(1);
+    expect(cache.list().map(entry => entry.request)).toEqual(['new']);
+    expect(cache.purge()).toBe(1);
+  });
+});
@@ -0,0 +1,231 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, unlinkSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { debugLog } from '../logger.js';
+
+/**
+ * Configuration options for ResponseCache
+ */
+export interface ResponseCacheConfig {
+  dir: string;
+  ttlMs?: number;
+  maxEntries?: number;
+  maxBytes?: number;
+}
+
+/**
+ * The values that identify a cached response
+ */
+export interface CacheKey {
+  tool: string;
+  request: string;
+  variant?: string;
+  model: string;
+  docsHash: string;
+  promptsHash: string;
+}
+
+/**
+ * Summary of a cached response, without its value
+ */
+export interface CacheEntryInfo extends CacheKey {
+  id: string;
+  createdAt: string;
+  lastUsedAt: string;
+  bytes: number;
+}
+
+interface StoredEntry<T> {
+  key: CacheKey;
+  createdAt: number;
+  value: T;
+}
+
+/**
+ * Hashes a value for use in cache keys
+ * @param value - The value to hash
+ * @returns Hex SHA-256 digest
+ */
+export function hashContent(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Normalizes a request so requests differing only in whitespace share an entry.
+ * Case is kept, since identifiers and values in a request are case-sensitive.
+ * @param request - The request text
+ * @returns The normalized request
+ */
+export function normalizeRequest(request: string): string {
+  return request.trim().replace(/\s+/g, ' ');
+}
+
+// Sweeping for expired entries reads every entry, so it runs at most this often
+const EXPIRY_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * On-disk cache of model responses. Each entry is a JSON file named after
+ * the hash of its key. Entries expire after the TTL, and the least recently
+ * used entries are removed when the entry count or total size exceeds its limit.
+ */
+export class ResponseCache {
+  private readonly dir: string;
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private lastExpirySweep = 0;
+
+  /**
+   * Creates a new instance of ResponseCache, creating the directory if needed
+   * @param config - Cache directory and limits
+   */
+  constructor(config: ResponseCacheConfig) {
+    this.dir = config.dir;
+    this.ttlMs = config.ttlMs || 24 * 60 * 60 * 1000;
+    this.maxEntries = config.maxEntries || 1000;
+    this.maxBytes = config.maxBytes || 50 * 1024 * 1024;
+    mkdirSync(this.dir, { recursive: true });
+  }
+
+  /**
+   * Gets the directory holding the cache entries
+   * @returns The cache directory
+   */
+  getDirectory(): string {
+    return this.dir;
+  }
+
+  /**
+   * Gets a cached response
+   * @param key - The cache key
+   * @returns The cached value, or undefined if missing or expired
+   */
+  get<T>(key: CacheKey): T | undefined {
+    const path = this.entryPath(key);
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    try {
+      const entry = JSON.parse(readFileSync(path, 'utf-8')) as StoredEntry<T>;
+      if (Date.now() - entry.createdAt > this.ttlMs) {
+        unlinkSync(path);
+        return undefined;
+      }
+      // The modification time records the last use for LRU eviction
+      const now = new Date();
+      utimesSync(path, now, now);
+      return entry.value;
+    } catch (error) {
+      debugLog(`Ignoring unreadable cache entry ${path}: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a response, then enforces the cache limits
+   * @param key - The cache key
+   * @param value - The value to store
+   */
+  set<T>(key: CacheKey, value: T): void {
+    const entry: StoredEntry<T> = { key, createdAt: Date.now(), value };
+    try {
+      writeFileSync(this.entryPath(key), JSON.stringify(entry));
+      this.prune();
+    } catch (error) {
+      debugLog(`Failed to write cache entry: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the cached entries, most recently used first
+   * @returns Summaries of the entries
+   */
+  list(): CacheEntryInfo[] {
+    const entries: CacheEntryInfo[] = [];
+    for (const file of this.entryFiles()) {
+      const path = join(this.dir, file);
+      try {
+        const entry = JSON.parse(readFileSync(path, 'utf-8')) as StoredEntry<unknown>;
+        const stats = statSync(path);
+        entries.push({
+          id: file.replace(/\.json$/, ''),
+          ...entry.key,
+          createdAt: new Date(entry.createdAt).toISOString(),
+          lastUsedAt: stats.mtime.toISOString(),
+          bytes: stats.size,
+        });
+      } catch (error) {
+        debugLog(`Ignoring unreadable cache entry ${path}: ${error}`);
+      }
+    }
+    return entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Deletes cache entries
+   * @param expiredOnly - Only delete entries older than the TTL
+   * @returns The number of entries deleted
+   */
+  purge(expiredOnly = false): number {
+    let deleted = 0;
+    const cutoff = Date.now() - this.ttlMs;
+    for (const file of this.entryFiles()) {
+      const path = join(this.dir, file);
+      try {
+        if (expiredOnly) {
+          const entry = JSON.parse(readFileSync(path, 'utf-8')) as StoredEntry<unknown>;
+          if (entry.createdAt >= cutoff) {
+            continue;
+          }
+        }
+        unlinkSync(path);
+        deleted++;
+      } catch (error) {
+        debugLog(`Failed to delete cache entry ${path}: ${error}`);
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Removes the least recently used entries until the cache is within its
+   * entry and size limits, using only file stats. Expired entries are swept
+   * first when the last sweep is older than the sweep interval.
+   */
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastExpirySweep >= Math.min(this.ttlMs, EXPIRY_SWEEP_INTERVAL_MS)) {
+      this.lastExpirySweep = now;
+      this.purge(true);
+    }
+    const entries = this.entryFiles()
+      .map(file => {
+        const stats = statSync(join(this.dir, file));
+        return { file, bytes: stats.size, lastUsed: stats.mtimeMs };
+      })
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    while (entries.length > 0 && (entries.length > this.maxEntries || totalBytes > this.maxBytes)) {
+      const oldest = entries.shift()!;
+      unlinkSync(join(this.dir, oldest.file));
+      totalBytes -= oldest.bytes;
+      debugLog(`Evicted cache entry ${oldest.file}`);
+    }
+  }
+
+  private entryFiles(): string[] {
+    return readdirSync(this.dir).filter(file => /^[0-9a-f]{64}\.json$/.test(file));
+  }
+
+  private entryPath(key: CacheKey): string {
+    return join(this.dir, `${hashContent(JSON.stringify([
+      key.tool,
+      normalizeRequest(key.request),
+      key.variant || '',
+      key.model,
+      key.docsHash,
+      key.promptsHash,
+    ]))}.json`);
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ClaudeMessage } from './providers/index.js';
+import { SessionStore } from './sessionStore.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('SessionStore', () => {
+  it('keeps the history of a session', async () => {
+    const store = new SessionStore();
+    await store.append('s1', 'list users', 'GET /users');
+    await store.append('s1', 'only admins', 'GET /users?role=admin');
+    expect(store.get('s1')?.turns.map(turn => turn.content)).toEqual([
+      'list users', 'GET /users', 'only admins', 'GET /users?role=admin',
+    ]);
+  });
+
+  it('keeps sessions of different clients apart', async () => {
+    const store = new SessionStore();
+    await store.append('shared', 'list users', 'GET /users', 'alice');
+    await store.append('shared', 'list orders', 'GET /orders', 'bob');
+
+    expect(store.get('shared', 'alice')?.turns[0].content).toBe('list users');
+    expect(store.get('shared', 'bob')?.turns[0].content).toBe('list orders');
+    expect(store.get('shared')).toBeUndefined();
+    expect(store.list('alice').map(session => [session.id, session.owner])).toEqual([['shared', 'alice']]);
+
+    expect(store.delete('shared', 'mallory')).toBe(false);
+    expect(store.clear('alice')).toBe(1);
+    expect(store.get('shared', 'bob')).toBeDefined();
+  });
+
+  it('evicts the least recently used session when full', async () => {
+    const store = new SessionStore({ maxSessions: 1 });
+    await store.append('old', 'a', 'b', 'alice');
+    await store.append('new', 'c', 'd', 'alice');
+    expect(store.list('alice').map(session => session.id)).toEqual(['new']);
+  });
+
+  it('trims the oldest turns to the token budget, keeping the latest exchange', async () => {
+    const store = new SessionStore({ maxTokens: 5 });
+    await store.append('s1', 'first request '.repeat(5), 'first response');
+    await store.append('s1', 'second request '.repeat(5), 'second response');
+    expect(store.get('s1')?.turns.map(turn => turn.content)).toEqual(['second request '.repeat(5), 'second response']);
+  });
+
+  it('folds trimmed turns into the summary when a summarizer is configured', async () => {
+    const summarized: ClaudeMessage[][] = [];
+    const store = new SessionStore({
+      maxTokens: 5,
+      summarize: async (previous, turns) => {
+        summarized.push(turns);
+        return `${previous ? `${previous}; ` : ''}asked ${turns.length / 2} question(s)`;
+      },
+    });
+    await store.append('s1', 'first request '.repeat(5), 'first response');
+    await store.append('s1', 'second request '.repeat(5), 'second response');
+    expect(store.get('s1')?.summary).toBe('asked 1 question(s)');
+    expect(summarized[0].map(turn => turn.content)).toEqual(['first request '.repeat(5), 'first response']);
+  });
+
+  it('passes the options of the request that added the turn to the summarizer', async () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    const store = new SessionStore({
+      maxTokens: 5,
+      summarize: async (_previous, _turns, options) => {
+        signals.push(options?.signal);
+        return 'summary';
+      },
+    });
+    const controller = new AbortController();
+    await store.append('s1', 'first request '.repeat(5), 'first response');
+    await store.append('s1', 'second request '.repeat(5), 'second response', undefined, { signal: controller.signal });
+    expect(signals).toEqual([controller.signal]);
+  });
+
+  it('keeps the trimmed history when summarizing fails', async () => {
+    const store = new SessionStore({ maxTokens: 5, summarize: async () => { throw new Error('overloaded'); } });
+    await store.append('s1', 'first request '.repeat(5), 'first response');
+    await store.append('s1', 'second request '.repeat(5), 'second response');
+    expect(store.get('s1')?.summary).toBeUndefined();
+    expect(store.get('s1')?.turns).toHaveLength(2);
+  });
+
+  it('expires sessions after the idle timeout', async () => {
+    vi.useFakeTimers();
+    const store = new SessionStore({ ttlMs: 1000 });
+    await store.append('s1', 'list users', 'GET /users');
+    vi.advanceTimersByTime(999);
+    expect(store.get('s1')).toBeDefined();
+    vi.advanceTimersByTime(2);
+    expect(store.get('s1')).toBeUndefined();
+    expect(store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,199 @@
+import { estimateTokens } from './documentIndex.js';
+import { ClaudeMessage, ClaudeResponse } from './providers/index.js';
+import { debugLog } from '../logger.js';
+
+/**
+ * Interface for a conversation kept between tool calls
+ */
+export interface Session {
+  id: string;
+  // The authenticated client that created the session; only that client can use it
+  owner?: string;
+  createdAt: number;
+  updatedAt: number;
+  turns: ClaudeMessage[];
+  summary?: string;
+}
+
+/**
+ * Configuration options for SessionStore
+ */
+export interface SessionStoreConfig {
+  ttlMs?: number;
+  maxSessions?: number;
+  maxTokens?: number;
+  summarize?: (previousSummary: string | undefined, turns: ClaudeMessage[], options?: SummarizeOptions) => Promise<string>;
+}
+
+/**
+ * Options of the request that records a turn, passed on to the summarizer
+ * so the summary counts toward that request's usage and can be cancelled with it
+ */
+export interface SummarizeOptions {
+  signal?: AbortSignal;
+  onUsage?: (usage: ClaudeResponse['usage']) => void;
+}
+
+/**
+ * Estimates the tokens used by a list of messages
+ */
+function countTokens(turns: ClaudeMessage[]): number {
+  return turns.reduce((sum, turn) => sum + estimateTokens(
+    typeof turn.content === 'string' ? turn.content : turn.content.map(part => part.text || '').join('')
+  ), 0);
+}
+
+/**
+ * Gets the key a session is stored under, so that clients using the
+ * same session ID get separate sessions
+ */
+function sessionKey(id: string, owner?: string): string {
+  return owner === undefined ? id : `${owner}\u0000${id}`;
+}
+
+/**
+ * In-memory store of conversation history for multi-turn sessions.
+ * Sessions expire after a period of inactivity, the least recently used
+ * session is evicted when the store is full, and old turns are trimmed
+ * (or summarized, when a summarizer is configured) to stay within a token budget.
+ * Sessions belong to the client that created them and are invisible to other clients.
+ */
+export class SessionStore {
+  private sessions: Map<string, Session> = new Map();
+  private readonly ttlMs: number;
+  private readonly maxSessions: number;
+  private readonly maxTokens: number;
+  private readonly summarize?: SessionStoreConfig['summarize'];
+
+  /**
+   * Creates a new instance of SessionStore
+   * @param config - Optional configuration parameters
+   */
+  constructor(config?: SessionStoreConfig) {
+    this.ttlMs = config?.ttlMs || 30 * 60 * 1000;
+    this.maxSessions = config?.maxSessions || 100;
+    this.maxTokens = config?.maxTokens || 4000;
+    this.summarize = config?.summarize;
+  }
+
+  /**
+   * Gets a session if it exists and has not expired
+   * @param id - The session ID
+   * @param owner - The client the session belongs to
+   * @returns The session, or undefined
+   */
+  get(id: string, owner?: string): Session | undefined {
+    this.purgeExpired();
+    return this.sessions.get(sessionKey(id, owner));
+  }
+
+  /**
+   * Lists the active sessions of a client, most recently used first
+   * @param owner - The client the sessions belong to
+   * @returns Array of sessions
+   */
+  list(owner?: string): Session[] {
+    this.purgeExpired();
+    return Array.from(this.sessions.values())
+      .filter(session => session.owner === owner)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Deletes a session
+   * @param id - The session ID
+   * @param owner - The client the session belongs to
+   * @returns True if the session existed
+   */
+  delete(id: string, owner?: string): boolean {
+    return this.sessions.delete(sessionKey(id, owner));
+  }
+
+  /**
+   * Deletes all sessions of a client
+   * @param owner - The client the sessions belong to
+   * @returns The number of sessions deleted
+   */
+  clear(owner?: string): number {
+    let count = 0;
+    for (const [key, session] of this.sessions) {
+      if (session.owner === owner) {
+        this.sessions.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Records a completed turn, then trims the history to the token budget
+   * @param id - The session ID
+   * @param request - The user's request
+   * @param response - The model's response
+   * @param owner - The client the session belongs to
+   * @param options - Signal and usage callback of the request, used when summarizing
+   */
+  async append(id: string, request: string, response: string, owner?: string, options?: SummarizeOptions): Promise<void> {
+    this.purgeExpired();
+    const now = Date.now();
+    const key = sessionKey(id, owner);
+    let session = this.sessions.get(key);
+    if (!session) {
+      session = { id, owner, createdAt: now, updatedAt: now, turns: [] };
+      this.sessions.set(key, session);
+      this.evictOverflow();
+    }
+
+    session.turns.push({ role: 'user', content: request }, { role: 'assistant', content: response });
+    session.updatedAt = now;
+    await this.trim(session, options);
+  }
+
+  /**
+   * Removes the oldest turns until the history fits the token budget,
+   * folding them into the session summary when a summarizer is available
+   */
+  private async trim(session: Session, options?: SummarizeOptions): Promise<void> {
+    const removed: ClaudeMessage[] = [];
+    // Always keep the latest exchange, even if it alone exceeds the budget
+    while (session.turns.length > 2 && countTokens(session.turns) + estimateTokens(session.summary || '') > this.maxTokens) {
+      removed.push(...session.turns.splice(0, 2));
+    }
+    if (removed.length === 0) {
+      return;
+    }
+
+    debugLog(`Trimmed ${removed.length / 2} turn(s) from session ${session.id}`);
+    if (this.summarize) {
+      try {
+        session.summary = await this.summarize(session.summary, removed, options);
+      } catch (error) {
+        debugLog(`Failed to summarize session ${session.id}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Removes sessions that have been idle for longer than the TTL
+   */
+  private purgeExpired(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [key, session] of this.sessions) {
+      if (session.updatedAt < cutoff) {
+        debugLog(`Session ${session.id} expired`);
+        this.sessions.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Evicts the least recently used sessions when over the limit
+   */
+  private evictOverflow(): void {
+    while (this.sessions.size > this.maxSessions) {
+      const [key, oldest] = Array.from(this.sessions).sort(([, a], [, b]) => a.updatedAt - b.updatedAt)[0];
+      debugLog(`Evicting session ${oldest.id}`);
+      this.sessions.delete(key);
+    }
+  }
+}